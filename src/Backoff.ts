@@ -0,0 +1,47 @@
+/**
+ * Computes the number of milliseconds to wait before the next attempt of {@link Future.retry}.
+ * @param attempt The number of the attempt that just failed, starting at `1`.
+ * @param previousDelay The delay that was used before the attempt that just failed, `0` after the first attempt.
+ */
+export type Backoff = (attempt: number, previousDelay: number) => number
+
+/**
+ * Common {@link Backoff} strategies.
+ */
+export const Backoff = {
+    /**
+     * Waits the same time before every attempt.
+     *
+     * @example
+     * ```TypeScript
+     * Future.retry(() => fetchUser(id), { backoff: Backoff.fixed(500) })
+     * ```
+     */
+    fixed: (delay: number): Backoff => () => delay,
+
+    /**
+     * Multiplies the delay by `factor` after every attempt, starting with `initial` and never exceeding `max`.
+     *
+     * @example
+     * ```TypeScript
+     * Future.retry(() => fetchUser(id), { backoff: Backoff.exponential({ initial: 100, factor: 2 }) }) // 100, 200, 400, ...
+     * ```
+     */
+    exponential: ({ initial = 100, factor = 2, max = Infinity } = {}): Backoff =>
+        (attempt) => Math.min(max, initial * factor ** (attempt - 1)),
+
+    /**
+     * Picks a random delay between `base` and three times the previous delay, never exceeding `max`.
+     * Spreads the attempts of many clients that failed at the same time.
+     *
+     * @example
+     * ```TypeScript
+     * Future.retry(() => fetchUser(id), { backoff: Backoff.decorrelatedJitter({ base: 100, max: 5000 }) })
+     * ```
+     */
+    decorrelatedJitter: ({ base = 100, max = 10_000 } = {}): Backoff =>
+        (_, previousDelay) => {
+            const upper = Math.max(base, previousDelay * 3)
+            return Math.min(max, base + Math.random() * (upper - base))
+        },
+}
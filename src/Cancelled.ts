@@ -0,0 +1,23 @@
+import { Panic } from "@frank-mayer/panic"
+
+/**
+ * The error a {@link Future} resolves to if it was cancelled before it settled.
+ *
+ * `Cancelled` is a {@link Panic}, so `Future`s that can only fail with a `Panic` (like {@link Future.do}) stay correctly typed when they get cancelled.
+ */
+export class Cancelled extends Panic {
+    /**
+     * The reason passed to {@link Future.cancel} or of the aborted `AbortSignal`.
+     */
+    public readonly reason: unknown
+
+    constructor(reason?: unknown) {
+        super(
+            reason === undefined
+                ? "Future was cancelled"
+                : `Future was cancelled: ${String(reason)}`
+        )
+        this.name = "Cancelled"
+        this.reason = reason
+    }
+}
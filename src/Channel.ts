@@ -0,0 +1,778 @@
+import { panic } from "@frank-mayer/panic"
+import { Future } from "./Future"
+import { LaggedError } from "./LaggedError"
+import { none, Option, some } from "./Option"
+import { err, ok, Result } from "./Result"
+import { SendError } from "./SendError"
+
+/**
+ * A {@link Sender.send} that waits for space in a full channel.
+ * @internal
+ */
+interface BlockedSend<T> {
+    readonly value: T
+    readonly sent: () => void
+    readonly failed: (error: SendError<T>) => void
+}
+
+/**
+ * Removes `item` from `array` if it is in there.
+ * @internal
+ */
+const remove = <T>(array: Array<T>, item: T) => {
+    const index = array.indexOf(item)
+    if (index !== -1) {
+        array.splice(index, 1)
+    }
+}
+
+/**
+ * Panics if `capacity` is not a positive integer or `Infinity`.
+ * @internal
+ */
+const checkCapacity = (capacity: number) => {
+    if (capacity !== Infinity && (!Number.isInteger(capacity) || capacity < 1)) {
+        panic(`Capacity must be a positive integer or Infinity, got ${capacity}`)
+    }
+}
+
+/**
+ * The state shared by the {@link Sender}s and the {@link Receiver} of a channel.
+ * @internal
+ */
+class ChannelState<T> {
+    public readonly capacity: number
+    public readonly buffer = new Array<T>()
+    public readonly blockedSends = new Array<BlockedSend<T>>()
+    public readonly waitingRecvs = new Array<(item: Option<T>) => void>()
+    public senders = 1
+    public receiverClosed = false
+
+    constructor(capacity: number) {
+        this.capacity = capacity
+    }
+
+    /**
+     * Hands `value` to a waiting receive or puts it into the buffer.
+     * @returns `false` if the buffer is full.
+     */
+    public offer(value: T): boolean {
+        const recv = this.waitingRecvs.shift()
+        if (recv) {
+            recv(some(value))
+            return true
+        }
+
+        if (this.buffer.length < this.capacity) {
+            this.buffer.push(value)
+            return true
+        }
+
+        return false
+    }
+
+    /**
+     * Takes the oldest value out of the buffer and lets the oldest blocked send fill the space.
+     */
+    public take(): Option<T> {
+        if (this.buffer.length === 0) {
+            return none()
+        }
+
+        const value = this.buffer.shift() as T
+        const blocked = this.blockedSends.shift()
+        if (blocked) {
+            this.buffer.push(blocked.value)
+            blocked.sent()
+        }
+
+        return some(value)
+    }
+
+    /**
+     * Resolves all waiting receives to `none`, once no more values can arrive.
+     */
+    public wakeRecvs(): void {
+        for (const recv of this.waitingRecvs.splice(0)) {
+            recv(none())
+        }
+    }
+}
+
+/**
+ * The sending half of a channel created by {@link channel}.
+ *
+ * A channel can have many `Sender`s, created with {@link Sender.clone}. It closes once all of them are closed.
+ */
+export class Sender<T> {
+    /** @internal */
+    private readonly state: ChannelState<T>
+
+    /** @internal */
+    private closed = false
+
+    /** @internal */
+    constructor(state: ChannelState<T>) {
+        this.state = state
+    }
+
+    /**
+     * Sends `value` to the {@link Receiver}.
+     *
+     * If the channel is full, the returned `Future` waits until the receiver made space, which slows down producers that are faster than the consumer.
+     * It fails with a {@link SendError} holding `value` if the receiver or `this` `Sender` is closed. Cancelling it while it waits withdraws `value`.
+     *
+     * @example
+     * ```TypeScript
+     * const [tx, rx] = channel<number>(1)
+     *
+     * await tx.send(1) // resolves immediately
+     * const a = tx.send(2) // waits until 1 was received
+     * await rx.recv() // some(1)
+     * await a // ok(undefined)
+     * ```
+     */
+    public send(value: T): Future<void, SendError<T>> {
+        return new Future((ok, err, onCancel) => {
+            if (this.closed || this.state.receiverClosed) {
+                err(new SendError(value))
+                return
+            }
+
+            if (this.state.offer(value)) {
+                ok()
+                return
+            }
+
+            const blocked: BlockedSend<T> = { value, sent: ok, failed: err }
+            this.state.blockedSends.push(blocked)
+            onCancel(() => remove(this.state.blockedSends, blocked))
+        })
+    }
+
+    /**
+     * Sends `value` to the {@link Receiver} if that is possible without waiting.
+     *
+     * Fails with a {@link SendError} of kind `"full"` if the channel is full and of kind `"closed"` if it is closed.
+     *
+     * @example
+     * ```TypeScript
+     * const [tx, rx] = channel<number>(1)
+     *
+     * tx.trySend(1) // ok(undefined)
+     * tx.trySend(2) // err(SendError), the channel is full
+     * ```
+     */
+    public trySend(value: T): Result<void, SendError<T>> {
+        if (this.closed || this.state.receiverClosed) {
+            return err(new SendError(value))
+        }
+
+        if (this.state.offer(value)) {
+            return ok(undefined)
+        }
+
+        return err(new SendError(value, "full"))
+    }
+
+    /**
+     * Creates another `Sender` for the same channel.
+     *
+     * Panics if `this` `Sender` is closed.
+     *
+     * @example
+     * ```TypeScript
+     * const [tx, rx] = channel<string>()
+     * const tx2 = tx.clone()
+     *
+     * tx.send("from the first sender")
+     * tx2.send("from the second sender")
+     * ```
+     */
+    public clone(): Sender<T> {
+        if (this.closed) {
+            panic("Cannot clone a closed Sender")
+        }
+
+        this.state.senders++
+        return new Sender(this.state)
+    }
+
+    /**
+     * Closes `this` `Sender`. Once all `Sender`s are closed, the {@link Receiver} receives the remaining values and then `none`.
+     * Values sent before are not withdrawn. Closing a `Sender` twice does nothing.
+     *
+     * @example
+     * ```TypeScript
+     * const [tx, rx] = channel<number>()
+     * tx.send(1)
+     * tx.close()
+     *
+     * await rx.recv() // some(1)
+     * await rx.recv() // none()
+     * ```
+     */
+    public close(): void {
+        if (this.closed) {
+            return
+        }
+
+        this.closed = true
+        if (--this.state.senders === 0) {
+            this.state.wakeRecvs()
+        }
+    }
+
+    /**
+     * Checks if the {@link Receiver} is closed, so that sending fails.
+     */
+    public isClosed(): boolean {
+        return this.state.receiverClosed
+    }
+}
+
+/**
+ * The receiving half of a channel created by {@link channel}.
+ *
+ * A `Receiver` is an async iterable of the received values, which ends once all {@link Sender}s are closed.
+ *
+ * @example
+ * ```TypeScript
+ * const [tx, rx] = channel<Job>(10)
+ *
+ * for await (const job of rx) {
+ *     await run(job)
+ * }
+ * ```
+ */
+export class Receiver<T> implements AsyncIterable<T> {
+    /** @internal */
+    private readonly state: ChannelState<T>
+
+    /** @internal */
+    constructor(state: ChannelState<T>) {
+        this.state = state
+    }
+
+    /**
+     * Receives the next value. Waits until a value was sent, or resolves to `none` once all {@link Sender}s are closed and all sent values were received.
+     *
+     * Cancelling the returned `Future` while it waits does not lose a value.
+     *
+     * @example
+     * ```TypeScript
+     * const [tx, rx] = channel<number>()
+     * setTimeout(() => tx.send(42), 1000)
+     *
+     * await rx.recv() // ok(some(42)) after a second
+     * ```
+     */
+    public recv(): Future<Option<T>, never> {
+        return new Future((ok, _, onCancel) => {
+            const item = this.state.take()
+            if (item.isSome() || this.state.senders === 0 || this.state.receiverClosed) {
+                ok(item)
+                return
+            }
+
+            const waiting = (item: Option<T>) => ok(item)
+            this.state.waitingRecvs.push(waiting)
+            onCancel(() => remove(this.state.waitingRecvs, waiting))
+        })
+    }
+
+    /**
+     * Receives the next value if one was sent already, without waiting.
+     *
+     * @example
+     * ```TypeScript
+     * const [tx, rx] = channel<number>()
+     * rx.tryRecv() // none()
+     *
+     * tx.send(42)
+     * rx.tryRecv() // some(42)
+     * ```
+     */
+    public tryRecv(): Option<T> {
+        return this.state.take()
+    }
+
+    /**
+     * Closes the channel, so that sending fails with a {@link SendError}. Values that were sent before can still be received.
+     *
+     * Sends that wait for space fail as well and their values are not received.
+     *
+     * @example
+     * ```TypeScript
+     * const [tx, rx] = channel<number>()
+     * tx.send(1)
+     * rx.close()
+     *
+     * await tx.send(2) // err(SendError)
+     * await rx.recv() // ok(some(1))
+     * ```
+     */
+    public close(): void {
+        if (this.state.receiverClosed) {
+            return
+        }
+
+        this.state.receiverClosed = true
+        for (const blocked of this.state.blockedSends.splice(0)) {
+            blocked.failed(new SendError(blocked.value))
+        }
+        this.state.wakeRecvs()
+    }
+
+    /**
+     * Makes `this` `Receiver` usable with `for await...of`, which receives values until all {@link Sender}s are closed.
+     */
+    public async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+        for (let item = (await this.recv()).unwrapOr(none()); item.isSome(); item = (await this.recv()).unwrapOr(none())) {
+            yield item.value as T
+        }
+    }
+}
+
+/**
+ * Creates a channel to send values from many producers to one consumer, like Rust's `mpsc::channel`.
+ *
+ * Up to `capacity` values are buffered, after that {@link Sender.send} waits until the {@link Receiver} made space. Without a `capacity` the channel is unbounded.
+ * Panics if `capacity` is not a positive integer or `Infinity`.
+ *
+ * @example
+ * ```TypeScript
+ * const [tx, rx] = channel<number>(16)
+ *
+ * for (const id of ids) {
+ *     const worker = tx.clone()
+ *     fetchUser(id).map((user) => worker.send(user.age)).finally(() => worker.close())
+ * }
+ * tx.close()
+ *
+ * for await (const age of rx) {
+ *     console.log(age)
+ * }
+ * ```
+ */
+export const channel = <T>(capacity = Infinity): [Sender<T>, Receiver<T>] => {
+    checkCapacity(capacity)
+
+    const state = new ChannelState<T>(capacity)
+    return [new Sender(state), new Receiver(state)]
+}
+
+/**
+ * The state shared by the {@link OneshotSender} and the {@link OneshotReceiver} of a oneshot channel.
+ * @internal
+ */
+class OneshotState<T> {
+    public value: Option<T> = none()
+    public readonly waitingRecvs = new Array<(item: Option<T>) => void>()
+    public senderClosed = false
+    public receiverClosed = false
+
+    /**
+     * Resolves all waiting receives with `item`.
+     */
+    public wakeRecvs(item: Option<T>): void {
+        for (const recv of this.waitingRecvs.splice(0)) {
+            recv(item)
+        }
+    }
+}
+
+/**
+ * The sending half of a channel created by {@link oneshot}, which sends a single value.
+ */
+export class OneshotSender<T> {
+    /** @internal */
+    private readonly state: OneshotState<T>
+
+    /** @internal */
+    constructor(state: OneshotState<T>) {
+        this.state = state
+    }
+
+    /**
+     * Sends `value` and closes `this` `OneshotSender`. Never waits, since the channel has space for exactly one value.
+     *
+     * Fails with a {@link SendError} holding `value` if a value was sent already or the receiver is closed.
+     *
+     * @example
+     * ```TypeScript
+     * const [tx, rx] = oneshot<number>()
+     *
+     * tx.send(42) // ok(undefined)
+     * tx.send(43) // err(SendError)
+     * ```
+     */
+    public send(value: T): Result<void, SendError<T>> {
+        if (this.state.senderClosed || this.state.receiverClosed) {
+            return err(new SendError(value))
+        }
+
+        this.state.senderClosed = true
+        if (this.state.waitingRecvs.length !== 0) {
+            this.state.wakeRecvs(some(value))
+        }
+        else {
+            this.state.value = some(value)
+        }
+
+        return ok(undefined)
+    }
+
+    /**
+     * Closes `this` `OneshotSender` without sending a value, so that the receiver receives `none`.
+     */
+    public close(): void {
+        if (!this.state.senderClosed) {
+            this.state.senderClosed = true
+            this.state.wakeRecvs(none())
+        }
+    }
+
+    /**
+     * Checks if the {@link OneshotReceiver} is closed, so that sending fails.
+     */
+    public isClosed(): boolean {
+        return this.state.receiverClosed
+    }
+}
+
+/**
+ * The receiving half of a channel created by {@link oneshot}.
+ *
+ * A `OneshotReceiver` is an async iterable of at most one value.
+ */
+export class OneshotReceiver<T> implements AsyncIterable<T> {
+    /** @internal */
+    private readonly state: OneshotState<T>
+
+    /** @internal */
+    constructor(state: OneshotState<T>) {
+        this.state = state
+    }
+
+    /**
+     * Receives the value. Waits until it was sent, or resolves to `none` if the {@link OneshotSender} was closed without sending or the value was received already.
+     *
+     * @example
+     * ```TypeScript
+     * const [tx, rx] = oneshot<number>()
+     * setTimeout(() => tx.send(42), 1000)
+     *
+     * await rx.recv() // ok(some(42)) after a second
+     * ```
+     */
+    public recv(): Future<Option<T>, never> {
+        return new Future((ok, _, onCancel) => {
+            const item = this.tryRecv()
+            if (item.isSome() || this.state.senderClosed || this.state.receiverClosed) {
+                ok(item)
+                return
+            }
+
+            const waiting = (item: Option<T>) => ok(item)
+            this.state.waitingRecvs.push(waiting)
+            onCancel(() => remove(this.state.waitingRecvs, waiting))
+        })
+    }
+
+    /**
+     * Receives the value if it was sent already, without waiting.
+     */
+    public tryRecv(): Option<T> {
+        const item = this.state.value
+        this.state.value = none()
+        return item
+    }
+
+    /**
+     * Closes the channel, so that sending fails with a {@link SendError}. A value that was sent before can still be received.
+     */
+    public close(): void {
+        if (!this.state.receiverClosed) {
+            this.state.receiverClosed = true
+            this.state.wakeRecvs(none())
+        }
+    }
+
+    /**
+     * Makes `this` `OneshotReceiver` usable with `for await...of`, which yields the value if one is sent.
+     */
+    public async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+        const item = (await this.recv()).unwrapOr(none())
+        if (item.isSome()) {
+            yield item.value as T
+        }
+    }
+}
+
+/**
+ * Creates a channel to send a single value, like Rust's `oneshot::channel`. Useful to get the result of work that is done somewhere else.
+ *
+ * @example
+ * ```TypeScript
+ * const [tx, rx] = oneshot<Response>()
+ * queue.push({ request, reply: tx })
+ *
+ * const response = await rx.recv() // ok(some(response)) once the request was handled
+ * ```
+ */
+export const oneshot = <T>(): [OneshotSender<T>, OneshotReceiver<T>] => {
+    const state = new OneshotState<T>()
+    return [new OneshotSender(state), new OneshotReceiver(state)]
+}
+
+/**
+ * The values a single {@link BroadcastReceiver} has not received yet.
+ * @internal
+ */
+class BroadcastQueue<T> {
+    public readonly buffer = new Array<T>()
+    public readonly waitingRecvs = new Array<(result: Result<Option<T>, LaggedError>) => void>()
+    public lagged = 0
+
+    /**
+     * Resolves all waiting receives to `none`, once no more values can arrive.
+     */
+    public wakeRecvs(): void {
+        for (const recv of this.waitingRecvs.splice(0)) {
+            recv(ok(none()))
+        }
+    }
+}
+
+/**
+ * The state shared by the {@link BroadcastSender}s and {@link BroadcastReceiver}s of a broadcast channel.
+ * @internal
+ */
+class BroadcastState<T> {
+    public readonly capacity: number
+    public readonly queues = new Set<BroadcastQueue<T>>()
+    public senders = 1
+
+    constructor(capacity: number) {
+        this.capacity = capacity
+    }
+}
+
+/**
+ * The sending half of a channel created by {@link broadcast}.
+ *
+ * A channel can have many `BroadcastSender`s, created with {@link BroadcastSender.clone}. It closes once all of them are closed.
+ */
+export class BroadcastSender<T> {
+    /** @internal */
+    private readonly state: BroadcastState<T>
+
+    /** @internal */
+    private closed = false
+
+    /** @internal */
+    constructor(state: BroadcastState<T>) {
+        this.state = state
+    }
+
+    /**
+     * Sends `value` to every {@link BroadcastReceiver} and returns how many there are.
+     *
+     * Never waits: a receiver that already has `capacity` values it did not receive yet drops the oldest one, see {@link LaggedError}.
+     * Fails with a {@link SendError} holding `value` if there is no receiver or `this` `BroadcastSender` is closed.
+     *
+     * @example
+     * ```TypeScript
+     * const [tx, rx] = broadcast<string>(16)
+     * const rx2 = tx.subscribe()
+     *
+     * tx.send("hello") // ok(2)
+     * ```
+     */
+    public send(value: T): Result<number, SendError<T>> {
+        if (this.closed || this.state.queues.size === 0) {
+            return err(new SendError(value))
+        }
+
+        for (const queue of this.state.queues) {
+            const recv = queue.waitingRecvs.shift()
+            if (recv) {
+                recv(ok(some(value)))
+                continue
+            }
+
+            queue.buffer.push(value)
+            if (queue.buffer.length > this.state.capacity) {
+                queue.buffer.shift()
+                queue.lagged++
+            }
+        }
+
+        return ok(this.state.queues.size)
+    }
+
+    /**
+     * Creates a new {@link BroadcastReceiver} that receives the values sent from now on.
+     */
+    public subscribe(): BroadcastReceiver<T> {
+        return new BroadcastReceiver(this.state)
+    }
+
+    /**
+     * Returns the number of {@link BroadcastReceiver}s that are not closed.
+     */
+    public receiverCount(): number {
+        return this.state.queues.size
+    }
+
+    /**
+     * Creates another `BroadcastSender` for the same channel.
+     *
+     * Panics if `this` `BroadcastSender` is closed.
+     */
+    public clone(): BroadcastSender<T> {
+        if (this.closed) {
+            panic("Cannot clone a closed BroadcastSender")
+        }
+
+        this.state.senders++
+        return new BroadcastSender(this.state)
+    }
+
+    /**
+     * Closes `this` `BroadcastSender`. Once all `BroadcastSender`s are closed, every receiver receives its remaining values and then `none`.
+     */
+    public close(): void {
+        if (this.closed) {
+            return
+        }
+
+        this.closed = true
+        if (--this.state.senders === 0) {
+            for (const queue of this.state.queues) {
+                queue.wakeRecvs()
+            }
+        }
+    }
+}
+
+/**
+ * The receiving half of a channel created by {@link broadcast}. Every `BroadcastReceiver` receives every value sent after it was created.
+ *
+ * A `BroadcastReceiver` is an async iterable of the received values, which ends once all {@link BroadcastSender}s are closed.
+ * Values dropped because the receiver lagged behind are skipped silently, use {@link BroadcastReceiver.recv} to notice them.
+ */
+export class BroadcastReceiver<T> implements AsyncIterable<T> {
+    /** @internal */
+    private readonly state: BroadcastState<T>
+
+    /** @internal */
+    private readonly queue = new BroadcastQueue<T>()
+
+    /** @internal */
+    constructor(state: BroadcastState<T>) {
+        this.state = state
+        state.queues.add(this.queue)
+    }
+
+    /**
+     * Receives the next value. Waits until a value was sent, or resolves to `none` once all {@link BroadcastSender}s are closed and all values were received.
+     *
+     * If values were dropped because `this` `BroadcastReceiver` lagged behind, it resolves to a {@link LaggedError} once and continues with the oldest value that was kept.
+     *
+     * @example
+     * ```TypeScript
+     * const [tx, rx] = broadcast<number>(16)
+     * tx.send(42)
+     *
+     * await rx.recv() // ok(some(42))
+     * ```
+     */
+    public recv(): Future<Option<T>, LaggedError> {
+        return new Future((ok, err, onCancel) => {
+            const result = this.tryRecv()
+            if (result.isErr() || result.value.isSome() || this.state.senders === 0 || !this.state.queues.has(this.queue)) {
+                result.futureExecutor(ok, err)
+                return
+            }
+
+            const waiting = (result: Result<Option<T>, LaggedError>) => result.futureExecutor(ok, err)
+            this.queue.waitingRecvs.push(waiting)
+            onCancel(() => remove(this.queue.waitingRecvs, waiting))
+        })
+    }
+
+    /**
+     * Receives the next value if one was sent already, without waiting. Fails with a {@link LaggedError} like {@link BroadcastReceiver.recv}.
+     */
+    public tryRecv(): Result<Option<T>, LaggedError> {
+        if (this.queue.lagged !== 0) {
+            const skipped = this.queue.lagged
+            this.queue.lagged = 0
+            return err(new LaggedError(skipped))
+        }
+
+        if (this.queue.buffer.length === 0) {
+            return ok(none())
+        }
+
+        return ok(some(this.queue.buffer.shift() as T))
+    }
+
+    /**
+     * Creates a new `BroadcastReceiver` for the same channel, which receives the values sent from now on.
+     */
+    public resubscribe(): BroadcastReceiver<T> {
+        return new BroadcastReceiver(this.state)
+    }
+
+    /**
+     * Stops receiving values. Values that were sent before can still be received.
+     */
+    public close(): void {
+        if (this.state.queues.delete(this.queue)) {
+            this.queue.wakeRecvs()
+        }
+    }
+
+    /**
+     * Makes `this` `BroadcastReceiver` usable with `for await...of`, which receives values until all {@link BroadcastSender}s are closed.
+     */
+    public async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+        for (;;) {
+            const result = await this.recv()
+            if (result.isErr()) {
+                continue
+            }
+
+            const item = result.value as Option<T>
+            if (item.isNone()) {
+                return
+            }
+
+            yield item.value as T
+        }
+    }
+}
+
+/**
+ * Creates a channel to send every value to many consumers, like Rust's `broadcast::channel`.
+ *
+ * Every {@link BroadcastReceiver} buffers up to `capacity` values. Sending never waits, a receiver that lags further behind drops its oldest values.
+ * Panics if `capacity` is not a positive integer or `Infinity`.
+ *
+ * @example
+ * ```TypeScript
+ * const [tx, rx] = broadcast<Event>(100)
+ * const logger = tx.subscribe()
+ *
+ * tx.send(event) // both rx and logger receive event
+ * ```
+ */
+export const broadcast = <T>(capacity: number): [BroadcastSender<T>, BroadcastReceiver<T>] => {
+    checkCapacity(capacity)
+
+    const state = new BroadcastState<T>(capacity)
+    return [new BroadcastSender(state), new BroadcastReceiver(state)]
+}
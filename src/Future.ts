@@ -1,30 +1,330 @@
 import { Panic } from "@frank-mayer/panic"
+import { Backoff } from "./Backoff"
+import { Cancelled } from "./Cancelled"
+import { capture, interrupt, isInterruption, rejectionToError, setPanicHook } from "./Interruption"
 import { IntoFuture } from "./IntoFuture"
 import { Result } from "./Result"
+import { RetryError } from "./RetryError"
+import type { Task } from "./Task"
+import { TimeoutError } from "./TimeoutError"
+import { remotePanic, SerializedThrown } from "./RemoteError"
+import { mapChunkSource } from "./WorkerBackend"
+import { defaultMaxWorkers, WorkerPool, WorkerPoolOptions } from "./WorkerPool"
+
+/**
+ * The function passed to the {@link Future} constructor.
+ *
+ * It gets called immediately with functions to settle the `Future` and to register handlers that run if the `Future` gets cancelled before it settled.
+ * `err` also accepts an {@link Interruption}, so that the outcome of another `Future` can be passed along.
+ */
+export type FutureExecutor<T, E> = (
+    ok: (value: T) => void,
+    err: (reason: E | Interruption) => void,
+    onCancel: (handler: () => void) => void
+) => void
+
+/**
+ * The errors every {@link Future} can resolve to besides its own error type:
+ * a {@link Cancelled} if it got cancelled and a {@link Panic} if its executor or a callback passed to one of its methods threw.
+ */
+export type Interruption = Cancelled | Panic
+
+/**
+ * Receives every {@link Panic} a {@link Future} resolves to because an executor or callback threw, see {@link Future.setPanicHook}.
+ */
+export type PanicHook = (panic: Panic) => void
+
+/**
+ * Options for creating a {@link Future}.
+ */
+export interface FutureOptions {
+    /**
+     * Cancels the `Future` when the signal is aborted.
+     */
+    signal?: AbortSignal
+}
+
+/**
+ * Options for {@link Future.doWith}.
+ */
+export interface DoOptions extends FutureOptions {
+    /**
+     * Objects that are transferred to the worker instead of being copied.
+     */
+    transfer?: Array<Transferable>
+}
+
+/**
+ * Options for {@link Future.parallelMap}.
+ */
+export interface ParallelMapOptions extends FutureOptions {
+    /**
+     * The maximum number of chunks that are processed at the same time. Defaults to the maximum number of workers.
+     */
+    concurrency?: number
+
+    /**
+     * The number of items that are sent to a worker at once.
+     */
+    chunkSize?: number
+}
+
+/**
+ * Configures how {@link Future.retry} retries.
+ */
+export interface RetryPolicy<E> {
+    /**
+     * The delay between attempts. Defaults to {@link Backoff.exponential}.
+     */
+    backoff?: Backoff
+
+    /**
+     * The maximum number of attempts, including the first one. Defaults to `3`.
+     */
+    maxAttempts?: number
+
+    /**
+     * Milliseconds after the first attempt after which no further attempt is started.
+     */
+    maxElapsed?: number
+
+    /**
+     * Decides if an error is worth another attempt. All errors are by default.
+     */
+    shouldRetry?: (error: E, attempt: number) => boolean
+}
+
+/**
+ * The `ok` type of a {@link Future}, distributed over unions.
+ */
+export type FutureValue<F> = F extends Future<infer T, unknown> ? T : never
+
+/**
+ * The `err` type of a {@link Future}, distributed over unions.
+ */
+export type FutureError<F> = F extends Future<unknown, infer E> ? E : never
+
+/**
+ * The `Promise` constructor without its static combinators, which {@link Future} replaces with ones that resolve to `Result`s.
+ * @internal
+ */
+const PromiseBase: new <R>(
+    executor: (resolve: (value: R | PromiseLike<R>) => void, reject: (reason?: unknown) => void) => void
+) => Promise<R> = Promise
 
 /**
  * `Future<T, E>` is the type used for asynchronous operations.
  *
  * Other than a {@link Promise}, a `Future` has **fixed types for the value and the error**.
+ *
+ * A `Future` never rejects, it always resolves to a {@link Result}. Methods inherited from `Promise`, like `then` and `catch`, return plain `Promise`s.
+ * A `Future` that got cancelled or whose executor threw resolves to an `err` holding an {@link Interruption}, so the error it resolves to is `E | Interruption`.
+ * Error handlers like {@link Future.orElse} or {@link Future.mapErr} only get called with an `E` and pass an `Interruption` along.
  */
-export class Future<T, E> extends Promise<Result<T, E>> {
+export class Future<T, E> extends PromiseBase<Result<T, E | Interruption>> {
+    /**
+     * Makes `then`, `catch` and the other methods inherited from `Promise` create plain `Promise`s.
+     * The constructor of a `Future` takes an `(ok, err, onCancel)` executor, so it must not be called with the `(resolve, reject)` executor of a `Promise`.
+     */
+    public static get [Symbol.species](): PromiseConstructor {
+        return Promise
+    }
+
     public get futureExecutor() {
-        return (resolveOk: (value: T) => void, resolveErr: (reason: E) => void) => {
+        return (resolveOk: (value: T) => void, resolveErr: (reason: E | Interruption) => void) => {
             this.then((result) => {
                 result.futureExecutor(resolveOk, resolveErr)
             })
         }
     }
 
-    constructor(executor: (ok: (value: T) => void, err: (reason: E) => void) => void) {
+    /**
+     * Makes `this` future usable with `yield*` inside of {@link Future.gen}.
+     *
+     * An `ok` returns its value without yielding, an `err` yields itself to the runner which stops the generator.
+     */
+    public async *[Symbol.asyncIterator](): AsyncGenerator<Result<never, E | Interruption>, T, unknown> {
+        return yield* (await this).try()
+    }
+
+    /** @internal */
+    private readonly _cancel: (reason: unknown) => void
+
+    /**
+     * Creates a new `Future` from an executor.
+     *
+     * The executor gets an `ok` and an `err` function to settle the `Future` and an `onCancel` function to register handlers that release resources when the `Future` gets cancelled before it settled.
+     *
+     * @example
+     * ```TypeScript
+     * const a = new Future<number, Cancelled>((ok, err, onCancel) => {
+     *     const id = setTimeout(() => ok(42), 1000)
+     *     onCancel(() => clearTimeout(id))
+     * }, { signal })
+     * ```
+     */
+    constructor(executor: FutureExecutor<T, E>, options: FutureOptions = {}) {
+        let cancel: (reason: unknown) => void = () => undefined
         super((resolve) => {
-            executor(
-                (value: T) => resolve(Result.ok(value)),
-                (reason: E) => resolve(Result.err(reason))
-            )
+            let settled = false
+            let cancelled = false
+            let cancelHandlers = new Array<() => void>()
+            let detachSignal = () => undefined as void
+
+            const settle = (result: Result<T, E | Interruption>) => {
+                if (!settled) {
+                    settled = true
+                    cancelHandlers = []
+                    detachSignal()
+                    resolve(result)
+                }
+            }
+
+            cancel = (reason: unknown) => {
+                if (settled) {
+                    return
+                }
+
+                const handlers = cancelHandlers
+                cancelled = true
+                settle(Result.err(interrupt(new Cancelled(reason))))
+                for (const handler of handlers) {
+                    handler()
+                }
+            }
+
+            const signal = options.signal
+            if (signal) {
+                if (signal.aborted) {
+                    cancel(signal.reason)
+                    return
+                }
+
+                const onAbort = () => cancel(signal.reason)
+                signal.addEventListener("abort", onAbort, { once: true })
+                detachSignal = () => signal.removeEventListener("abort", onAbort)
+            }
+
+            try {
+                executor(
+                    (value: T) => settle(Result.ok(value)),
+                    (reason: E | Interruption) => settle(Result.err(reason)),
+                    (handler: () => void) => {
+                        if (!settled) {
+                            cancelHandlers.push(handler)
+                        }
+                        else if (cancelled) {
+                            handler()
+                        }
+                    }
+                )
+            }
+            catch (thrown) {
+                settle(Result.err(capture(thrown)))
+            }
+        })
+        this._cancel = cancel
+    }
+
+    /**
+     * Sets a function that gets called with every {@link Panic} a `Future` resolves to because its executor, a callback passed to one of its methods or the body of {@link Future.gen} threw.
+     * Pass `undefined` to remove the hook.
+     *
+     * Such a `Future` resolves to an `err` holding the `Panic`, with the thrown value as its `cause`. A thrown `Panic` becomes the `cause` as well, so it stays an error of its own wherever else it is used.
+     * Like a {@link Cancelled}, the `Panic` is an {@link Interruption}, which error handlers like {@link Future.orElse} pass along.
+     *
+     * @example
+     * ```TypeScript
+     * Future.setPanicHook((panic) => reportBug(panic))
+     *
+     * const a = Future.ok(42).map((value) => JSON.parse("{")) // resolves to an err holding a Panic, reportBug gets called
+     * ```
+     */
+    public static setPanicHook(hook: PanicHook | undefined): void {
+        setPanicHook(hook)
+    }
+
+    /**
+     * Creates a `Future` that gets settled by `handler` once `this` one settled and cancels `this` one when it gets cancelled.
+     * If `handler` throws, the returned `Future` resolves to a {@link Panic}.
+     * @internal
+     */
+    private chain<U, F>(
+        handler: (
+            result: Result<T, E | Interruption>,
+            ok: (value: U) => void,
+            err: (reason: F | Interruption) => void,
+            onCancel: (handler: () => void) => void
+        ) => void
+    ): Future<U, F> {
+        return new Future<U, F>((ok, err, onCancel) => {
+            onCancel(() => this.cancel())
+            this.then((result) => handler(result, ok, err, onCancel))
+                .catch((thrown: unknown) => err(capture(thrown)))
         })
     }
 
+    /**
+     * Creates a new `Future` that gets cancelled when the given `AbortSignal` is aborted.
+     *
+     * Other than passing the signal to the constructor, the {@link Cancelled} error is part of the error type of the returned `Future`.
+     *
+     * @example
+     * ```TypeScript
+     * const controller = new AbortController()
+     * const a = Future.withSignal<number, string>(controller.signal, (ok, err, onCancel) => {
+     *     const id = setTimeout(() => ok(42), 1000)
+     *     onCancel(() => clearTimeout(id))
+     * })
+     *
+     * controller.abort()
+     * (await a).unwrapErr() // Cancelled
+     * ```
+     */
+    public static withSignal<T, E>(
+        signal: AbortSignal,
+        executor: FutureExecutor<T, E | Cancelled>
+    ): Future<T, E | Cancelled> {
+        return new Future(executor, { signal })
+    }
+
+    /**
+     * Wraps an existing `Future` so that it gets cancelled when the given `AbortSignal` is aborted.
+     *
+     * @example
+     * ```TypeScript
+     * const controller = new AbortController()
+     * const a = Future.abortable(Future.do(() => heavyComputation()), controller.signal)
+     *
+     * controller.abort() // terminates the worker
+     * ```
+     */
+    public static abortable<T, E>(future: Future<T, E>, signal: AbortSignal): Future<T, E | Cancelled> {
+        return new Future<T, E | Cancelled>((ok, err, onCancel) => {
+            onCancel(() => future.cancel())
+            future.futureExecutor(ok, err)
+        }, { signal })
+    }
+
+    /**
+     * Cancels `this` `Future` if it has not settled yet.
+     *
+     * `this` `Future` resolves to an `err` holding a {@link Cancelled} and the cancel handlers registered by its executor are run.
+     * Cancellation propagates to the `Future`s `this` one was derived from using {@link Future.andThen}, {@link Future.orElse} or {@link Future.map} and to the `Future` returned from their callbacks.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.do(() => heavyComputation())
+     * const b = a.map((value) => value + 1)
+     *
+     * b.cancel() // terminates the worker of `a`
+     * (await b).unwrapErr() // Cancelled
+     * ```
+     */
+    public cancel(reason?: unknown): void {
+        this._cancel(reason)
+    }
+
     /**
      * Creates a new `Future` from a `Promise`. If the `Promise` rejects, the `Future` will be an `err`.
      * @warning This method assumes that the `Promise` rejects with an `Error`. If the `Promise` rejects with a value that is not an `Error`, it will be wrapped in a `Panic`.
@@ -40,48 +340,48 @@ export class Future<T, E> extends Promise<Result<T, E>> {
      * (await c).unwrapErr().message // "Something went wrong"
      * ```
      */
-    public static from<T, E extends Error = Error>(promise: Promise<T>): Future<T, E> {
+    public static from<T, E extends Error = Error>(promise: Promise<T>): Future<T, E>
+    /**
+     * Creates a new `Future` from a `Promise`. If the `Promise` rejects, the `Future` will be an `err` holding the error `mapError` returns for the rejection reason.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.from(fetch(url), (reason) => new HttpError(0, String(reason))) // Future<Response, HttpError>
+     * ```
+     */
+    public static from<T, E>(promise: Promise<T>, mapError: (reason: unknown) => E): Future<T, E>
+    public static from<T, E>(promise: Promise<T>, mapError?: (reason: unknown) => E): Future<T, E> {
+        const toError = mapError ?? ((reason: unknown) => rejectionToError(reason) as E)
         return new Future((ok, err) => {
-            promise.then(ok).catch((errorValue) => {
-                if (typeof errorValue == "object") {
-                    if (errorValue instanceof Error) {
-                        err(errorValue as E)
-                        return
-                    }
-
-                    if ("message" in errorValue) {
-                        err(new Panic(errorValue.message) as E)
-                        return
-                    }
-                }
-
-                err(new Panic(String(errorValue)) as E)
-            })
-                .catch((error) => {
-                    if (error instanceof Error || error instanceof Panic) {
-                        err(error as E)
-                    }
-                    else {
-                        err(new Panic(String(error)) as E)
-                    }
-                })
+            promise.then(ok, (reason: unknown) => err(toError(reason)))
+                .catch((thrown: unknown) => err(capture(thrown)))
         })
     }
 
     /**
      * Creates a new `Future` from a `Promise<IntoFuture<T, E>>`.
      *
+     * If the `Promise` rejects, the `Future` will be an `err` holding the error `mapError` returns for the rejection reason.
+     * Without `mapError`, the `Future` resolves to a {@link Panic} with the rejection reason as its `cause`, like when a callback throws.
+     *
      * @example
      * ```TypeScript
      * const a = Future.parse(Promise.resolve(Result.ok(42)))
      * const b = Future.parse(Promise.resolve(Result.err(new Error("Something went wrong"))))
+     * const c = Future.parse(response.json(), (reason) => new ParseError(String(reason)))
      * ```
      */
-    public static parse<T, E>(promise: Promise<IntoFuture<T, E>>): Future<T, E> {
+    public static parse<T, E>(
+        promise: Promise<IntoFuture<T, E | Interruption>>,
+        mapError?: (reason: unknown) => E
+    ): Future<T, E> {
         return new Future((ok, err) => {
-            promise.then((result) => {
-                result.futureExecutor(ok, err)
-            })
+            promise.then(
+                (result) => {
+                    result.futureExecutor(ok, err)
+                },
+                (reason: unknown) => err(mapError ? mapError(reason) : capture(reason))
+            ).catch((thrown: unknown) => err(capture(thrown)))
         })
     }
 
@@ -116,7 +416,9 @@ export class Future<T, E> extends Promise<Result<T, E>> {
     /**
      * Joins multiple `Future`s into a single `Future` that resolves to an array of all the values.
      *
-     * If any of the `Future`s fail, the returned `Future` will fail with an array of all the errors.
+     * If any of the `Future`s fail, the returned `Future` will fail with a sparse array of all the errors.
+     * Each error is at the index of the `Future` that failed, so the array has no entries for the `Future`s that succeeded.
+     * If one of them got cancelled or panicked, the returned `Future` resolves to its {@link Interruption} instead.
      *
      * @example
      * ```TypeScript
@@ -125,26 +427,48 @@ export class Future<T, E> extends Promise<Result<T, E>> {
      * const c = Future.err<number, string>("Something went wrong")
      * const d = Future.err<number, string>("Something went wrong again")
      *
-     * Future.join([a, b, c, d]) // Future.err(["Something went wrong", "Something went wrong again"])
+     * Future.join([a, b, c, d]) // Future.err([<2 empty items>, "Something went wrong", "Something went wrong again"])
      * Future.join([a, b]) // Future.ok([42, 1337])
      * ```
+     *
+     * The types of a tuple of `Future`s are inferred for each element.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.join([fetchUser(id), readConfig()]) // Future<[User, Config], [DbError?, IoError?]>
+     * ```
      */
+    public static join<F extends [Future<unknown, unknown>, ...Array<Future<unknown, unknown>>]>(
+        futures: [...F]
+    ): Future<{ [K in keyof F]: FutureValue<F[K]> }, { [K in keyof F]?: FutureError<F[K]> }>
+    public static join<T, E>(futures: Array<Future<T, E>>): Future<Array<T>, Array<E>>
     public static join<T, E>(futures: Array<Future<T, E>>) {
-        return new Future<Array<T>, Array<E>>((ok, err) => {
+        return new Future<Array<T>, Array<E>>((ok, err, onCancel) => {
+            onCancel(() => {
+                for (const future of futures) {
+                    future.cancel()
+                }
+            })
             Promise.all(futures).then((results) => {
-                const errors = new Array<E>()
+                const errors = new Array<E>(results.length)
                 const values = new Array<T>()
+                let failed = false
 
-                for (const result of results) {
+                for (const [index, result] of results.entries()) {
                     if (result.isOk()) {
                         values.push(result.unwrap())
                     }
+                    else if (isInterruption(result.error)) {
+                        err(result.error)
+                        return
+                    }
                     else {
-                        errors.push(result.unwrapErr())
+                        errors[index] = result.error as E
+                        failed = true
                     }
                 }
 
-                if (errors.length !== 0) {
+                if (failed) {
                     err(errors)
                 }
                 else {
@@ -154,177 +478,1044 @@ export class Future<T, E> extends Promise<Result<T, E>> {
         })
     }
 
-    /** @internal */
-    private static workerPool: Map<string, Worker> = new Map()
-
     /**
-     * Creates a new `Future` from a function that is executed in a Web Worker.
-     * The function must be a pure function that does not use any variables from the outer scope.
+     * Joins a record of `Future`s into a single `Future` that resolves to a record of all the values.
      *
-     * The return value of the function must be serializable (if any).
+     * If any of the `Future`s fail, the returned `Future` fails with a record of the errors, keyed by the property of the `Future` that failed.
+     * If one of them got cancelled or panicked, the returned `Future` resolves to its {@link Interruption} instead.
      *
      * @example
      * ```TypeScript
-     * const a = Future.do(() => 42)
-     * const b = Future.do(() => { throw new Error("Something went wrong") })
-     * const c = Future.do(() => ({ foo: "bar" }))
+     * const a = Future.joinObject({ user: fetchUser(id), config: readConfig() })
+     * // Future<{ user: User, config: Config }, { user?: DbError, config?: IoError }>
      *
-     * (await a).unwrap() // 42
-     * (await b).unwrapErr().message // "Something went wrong"
-     * (await c).unwrap() // { foo: "bar" }
+     * const { user, config } = (await a).unwrap()
      * ```
      */
-    // eslint-disable-next-line max-lines-per-function
-    public static do<T>(fn: () => T): Future<T, Panic> {
-        // eslint-disable-next-line max-lines-per-function
-        return new Future((ok, err) => {
-            const str = fn.toString()
-
-            const worker = (Future.workerPool.has(str))
-                ? Future.workerPool.get(str) as Worker
-                : (() => {
-                    const objUrl =
-                        URL.createObjectURL(
-                            new File([
-                                new Blob(
-                                    [[
-                                        `const main = (${fn.toString()});`,
-                                        "self.onmessage = (async () => {",
-                                        "try {",
-                                        "postMessage({isOk: true, value: await main()});",
-                                        "} catch (e) {",
-                                        "postMessage({isOk: false, value: e});",
-                                        "}",
-                                        "})",
-                                    ].join("")], { type: "text/javascript" }
-                                )],
-                            `${fn.name}.js`,
-                            { type: "text/javascript" }
-                            ))
-                    // eslint-disable-next-line no-console
-                    console.debug(objUrl)
-                    const temp = new Worker(objUrl)
-                    Future.workerPool.set(str, temp)
-                    return temp
-                })()
+    public static joinObject<R extends Record<string, Future<unknown, unknown>>>(
+        futures: R
+    ): Future<{ [K in keyof R]: FutureValue<R[K]> }, { [K in keyof R]?: FutureError<R[K]> }> {
+        return new Future((ok, err, onCancel) => {
+            const keys = Object.keys(futures) as Array<keyof R>
+            const pending = keys.map((key) => futures[key] as Future<unknown, unknown>)
+            onCancel(() => {
+                for (const future of pending) {
+                    future.cancel()
+                }
+            })
 
-            try {
-                worker.onmessage = (event) => {
-                    const { isOk, value } = event.data as { isOk: boolean, value: T | Error }
-                    if (isOk) {
-                        ok(value as T)
+            Promise.all(pending).then((results) => {
+                const errors: Partial<Record<keyof R, unknown>> = {}
+                const values: Partial<Record<keyof R, unknown>> = {}
+                let failed = false
+
+                for (const [index, key] of keys.entries()) {
+                    const result = results[index] as Result<unknown, unknown>
+                    if (result.isOk()) {
+                        values[key] = result.unwrap()
+                    }
+                    else if (isInterruption(result.error)) {
+                        err(result.error)
+                        return
                     }
                     else {
-                        err(new Panic((value as Error).message))
+                        errors[key] = result.unwrapErr()
+                        failed = true
                     }
                 }
 
-                worker.postMessage(null)
-            }
-            catch (e) {
-                if (e instanceof Error) {
-                    err(new Panic(e.message))
+                if (failed) {
+                    err(errors as { [K in keyof R]?: FutureError<R[K]> })
                 }
                 else {
-                    err(new Panic(JSON.stringify(e)))
+                    ok(values as { [K in keyof R]: FutureValue<R[K]> })
                 }
-            }
+            })
         })
     }
 
     /**
-     * Execute another `Future` after `this` one has resolved successfully.
-     *
-     * This function can be used to chain two `Future`s together and ensure that the final `Future` isn't resolved until both have finished. The function provided is yielded the successful result of `this` `Future` and returns another value which can be converted into a `Future`.
-     *
-     * Note that because {@link Result} implements the {@link IntoFuture} interface `this` method can also be useful for chaining fallible and serial computations onto the end of one `Future`.
+     * Resolves to the outcome of the first of the given `Future`s that settles, `ok` or `err`. The other `Future`s get cancelled.
      *
-     * If `this` `Future` is dropped, panics, or completes with an error then the provided function `f` is never called.
-     *
-     * Note that `this` function consumes the receiving `Future` and returns a wrapped version of it.
+     * An empty array never settles.
      *
      * @example
      * ```TypeScript
-     * const a = Future.ok(42)
-     * const b = a.andThen((value) => Future.ok(value + 1))
-     *
-     * (await b).unwrap() // 43
+     * const a = Future.race([fetchUser(id), Future.delay(null, 1000)]) // Future<User | null, HttpError>
      * ```
      */
-    public andThen<U>(fn: (value: T) => Future<U, E> | IntoFuture<U, E>): Future<U, E> {
-        return new Future((ok, err) => {
-            this.then((thisResult) => {
-                if (thisResult.isOk()) {
-                    const other = fn(thisResult.unwrap())
-                    other.futureExecutor(ok, err)
-                }
-                else {
-                    err(thisResult.unwrapErr())
+    public static race<F extends Array<Future<unknown, unknown>>>(
+        futures: [...F]
+    ): Future<FutureValue<F[number]>, FutureError<F[number]>> {
+        return new Future((ok, err, onCancel) => {
+            const cancelAll = () => {
+                for (const future of futures) {
+                    future.cancel()
                 }
-            })
+            }
+            onCancel(cancelAll)
+
+            for (const future of futures) {
+                future.then((result) => {
+                    (result as Result<FutureValue<F[number]>, FutureError<F[number]> | Interruption>).futureExecutor(ok, err)
+                    cancelAll()
+                })
+            }
         })
     }
 
     /**
-     * Execute another `Future` if `this` one resolves with an error.
-     *
-     * Return a `Future` that passes along `this` `Future`'s value if it succeeds, and otherwise passes the error to the function `f` and waits for the `Future` it returns. The function may also simply return a value that can be converted into a `Future`.
-     *
-     * Note that because {@link Result} implements the {@link IntoFuture} interface `this` method can also be useful for chaining together fallback computations, where when one fails, the next is attempted.
-     *
-     * If `this` `Future` is dropped, panics, or completes successfully then the provided function f is never called.
+     * Resolves to the value of the first of the given `Future`s that succeeds. The other `Future`s get cancelled.
      *
-     * Note that `this` function consumes the receiving `Future` and returns a wrapped version of it.
+     * If all of the `Future`s fail, the returned `Future` fails with the errors of all of them, in the order of the input.
+     * If one of them got cancelled by someone else or panicked, the returned `Future` resolves to its {@link Interruption} and cancels the others.
      *
      * @example
      * ```TypeScript
-     * const a = Future.err("Something went wrong")
-     * const b = a.orElse((err) => Future.ok(42))
-     *
-     * (await b).unwrap() // 42
+     * const a = Future.any([fetchFromMirror(1), fetchFromMirror(2)]) // Future<Data, [HttpError, HttpError]>
      * ```
      */
-    public orElse<U>(f: (err: E) => Future<U, E> | IntoFuture<U, E>): Future<T | U, E> {
-        return new Future((ok, err) => {
-            this.then((thisResult) => {
-                if (thisResult.isOk()) {
-                    ok(thisResult.unwrap())
-                }
-                else {
-                    const other = f(thisResult.unwrapErr())
-                    other.futureExecutor(ok, err)
+    public static any<F extends Array<Future<unknown, unknown>>>(
+        futures: [...F]
+    ): Future<FutureValue<F[number]>, { [K in keyof F]: FutureError<F[K]> }> {
+        return new Future((ok, err, onCancel) => {
+            const cancelAll = () => {
+                for (const future of futures) {
+                    future.cancel()
                 }
+            }
+            onCancel(cancelAll)
+
+            const errors = new Array<unknown>(futures.length)
+            let pending = futures.length
+            if (pending === 0) {
+                err(errors as { [K in keyof F]: FutureError<F[K]> })
+                return
+            }
+
+            futures.forEach((future, index) => {
+                future.then((result) => {
+                    if (result.isOk()) {
+                        ok(result.unwrap() as FutureValue<F[number]>)
+                        cancelAll()
+                        return
+                    }
+
+                    if (isInterruption(result.error)) {
+                        err(result.error)
+                        cancelAll()
+                        return
+                    }
+
+                    errors[index] = result.unwrapErr()
+                    if (--pending === 0) {
+                        err(errors as { [K in keyof F]: FutureError<F[K]> })
+                    }
+                })
             })
         })
     }
 
     /**
-     * Map `this` `Future`’s result to a different type, returning a new `Future` of the resulting type.
-     *
-     * This function is similar to the `Optio`::map` where it will change the type of the underlying `Future`. This is useful to chain along a computation once a `Future` has been resolved.
-     *
-     * The function provided will only be called if `this` `Future` is resolved successfully. If `this` `Future` returns an error, panics, or is dropped, then the function provided will never be invoked.
+     * Resolves to the outcome of the first of the given `Future`s that settles, its index and the `Future`s that are still running.
      *
-     * Note that `this` function consumes the receiving `Future` and returns a wrapped version of it.
+     * Other than {@link Future.race}, the other `Future`s are not cancelled, so they can be selected from again. An empty array never settles.
      *
      * @example
      * ```TypeScript
-     * const a = Future.ok(42)
-     * const b = a.map((value) => value + 1)
-     *
-     * (await b).unwrap() // 43
+     * let pending = [fetchUser(1), fetchUser(2), fetchUser(3)]
+     * while (pending.length !== 0) {
+     *     const [result, index, remaining] = (await Future.select(pending)).unwrap()
+     *     pending = remaining
+     * }
      * ```
      */
-    public map<U>(f: (value: T) => U): Future<U, E> {
-        return new Future((ok, err) => {
-            this.then((thisResult) => {
-                if (thisResult.isOk()) {
-                    ok(f(thisResult.unwrap()))
-                }
-                else {
-                    err(thisResult.unwrapErr())
+    public static select<F extends Array<Future<unknown, unknown>>>(
+        futures: [...F]
+    ): Future<[Result<FutureValue<F[number]>, FutureError<F[number]> | Interruption>, number, Array<F[number]>], never> {
+        return new Future((ok, _, onCancel) => {
+            onCancel(() => {
+                for (const future of futures) {
+                    future.cancel()
                 }
             })
+
+            futures.forEach((future, index) => {
+                future.then((result) => {
+                    ok([
+                        result as Result<FutureValue<F[number]>, FutureError<F[number]> | Interruption>,
+                        index,
+                        futures.filter((_, other) => other !== index),
+                    ])
+                })
+            })
+        })
+    }
+
+    /**
+     * Waits for all of the given `Future`s and resolves to their outcomes. Never fails.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.ok<number, string>(42)
+     * const b = Future.err<boolean, Error>(new Error("Something went wrong"))
+     *
+     * Future.allSettled([a, b]) // Future<[Result<number, string | Interruption>, Result<boolean, Error | Interruption>], never>
+     * ```
+     */
+    public static allSettled<F extends Array<Future<unknown, unknown>>>(
+        futures: [...F]
+    ): Future<{ [K in keyof F]: Result<FutureValue<F[K]>, FutureError<F[K]> | Interruption> }, never> {
+        return new Future((ok, _, onCancel) => {
+            onCancel(() => {
+                for (const future of futures) {
+                    future.cancel()
+                }
+            })
+
+            Promise.all(futures).then((results) => {
+                ok(results as { [K in keyof F]: Result<FutureValue<F[K]>, FutureError<F[K]> | Interruption> })
+            })
+        })
+    }
+
+    /**
+     * Joins multiple `Future`s into a single `Future` that resolves to the values of all of them.
+     *
+     * Other than {@link Future.join}, the returned `Future` fails with the first error as soon as it occurs and cancels the other `Future`s.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.tryJoin([fetchUser(id), fetchPosts(id)]) // Future<[User, Array<Post>], HttpError>
+     * ```
+     */
+    public static tryJoin<F extends Array<Future<unknown, unknown>>>(
+        futures: [...F]
+    ): Future<{ [K in keyof F]: FutureValue<F[K]> }, FutureError<F[number]>> {
+        return new Future((ok, err, onCancel) => {
+            const cancelAll = () => {
+                for (const future of futures) {
+                    future.cancel()
+                }
+            }
+            onCancel(cancelAll)
+
+            const values = new Array<unknown>(futures.length)
+            let pending = futures.length
+            if (pending === 0) {
+                ok(values as { [K in keyof F]: FutureValue<F[K]> })
+                return
+            }
+
+            futures.forEach((future, index) => {
+                future.then((result) => {
+                    if (result.isErr()) {
+                        err(result.unwrapErr() as FutureError<F[number]> | Interruption)
+                        cancelAll()
+                        return
+                    }
+
+                    values[index] = result.unwrap()
+                    if (--pending === 0) {
+                        ok(values as { [K in keyof F]: FutureValue<F[K]> })
+                    }
+                })
+            })
+        })
+    }
+
+    /**
+     * Runs an async generator function in which `yield*` works like Rust's `?` operator.
+     *
+     * `yield*` on a `Future`, {@link Result.try} or {@link Option.try} evaluates to the `ok` value, an `err` (or `none`) stops the generator and becomes the `err` of the returned `Future`.
+     * Anything implementing {@link IntoFuture} can also be yielded with a plain `yield`, which evaluates to its `ok` value.
+     * The error types of all yielded steps are joined into the error type of the returned `Future`.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.gen(async function* () {
+     *     const user = yield* fetchUser(id) // Future<User, HttpError>
+     *     const age = yield* parseAge(user).try() // Result<number, ParseError>
+     *     return age + 1
+     * }) // Future<number, HttpError | ParseError>
+     * ```
+     */
+    public static gen<Y extends IntoFuture<unknown, unknown>, T>(
+        body: () => AsyncGenerator<Y, T, unknown>
+    ): Future<T, Y extends IntoFuture<unknown, infer E> ? E : never> {
+        return new Future((ok, err, onCancel) => {
+            const iterator = body()
+            let cancelled = false
+            onCancel(() => {
+                cancelled = true
+                iterator.return(undefined as never).catch((thrown: unknown) => capture(thrown))
+            })
+
+            const step = (next: unknown) => {
+                iterator.next(next).then((result) => {
+                    if (cancelled) {
+                        return
+                    }
+
+                    if (result.done) {
+                        ok(result.value)
+                        return
+                    }
+
+                    const current = Future.into(result.value)
+                    onCancel(() => current.cancel())
+                    current.futureExecutor(
+                        step,
+                        (reason) => {
+                            iterator.return(undefined as never).then(
+                                () => err(reason as Y extends IntoFuture<unknown, infer E> ? E : never),
+                                (thrown: unknown) => err(capture(thrown))
+                            )
+                        }
+                    )
+                }).catch((thrown: unknown) => {
+                    err(capture(thrown))
+                })
+            }
+
+            step(undefined)
+        })
+    }
+
+    /**
+     * Converts `other` into a `Future`, so that it can be cancelled. A {@link Task} cancels its run when the converted `Future` gets cancelled.
+     * @internal
+     */
+    private static into<U, F>(other: Future<U, F> | IntoFuture<U, F | Interruption>): Future<U, F> {
+        return other instanceof Future ? other : new Future(other.futureExecutor)
+    }
+
+    /**
+     * Calls `fire` after `ms` milliseconds unless the returned function or a cancel handler clears the timer before.
+     * @internal
+     */
+    private static timer(ms: number, onCancel: (handler: () => void) => void, fire: () => void): () => void {
+        const id = setTimeout(fire, Math.max(0, ms))
+        const clear = () => clearTimeout(id)
+        onCancel(clear)
+        return clear
+    }
+
+    /**
+     * Creates a new `Future` that resolves after the given number of milliseconds.
+     *
+     * @example
+     * ```TypeScript
+     * await Future.sleep(1000)
+     * ```
+     */
+    public static sleep(ms: number): Future<void, never> {
+        return Future.delay(undefined, ms)
+    }
+
+    /**
+     * Creates a new `Future` that resolves to the given value after the given number of milliseconds.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.delay(42, 1000)
+     *
+     * (await a).unwrap() // 42
+     * ```
+     */
+    public static delay<T>(value: T, ms: number): Future<T, never> {
+        return new Future((ok, _, onCancel) => {
+            Future.timer(ms, onCancel, () => ok(value))
+        })
+    }
+
+    /**
+     * Creates a new `Future` that resolves to an `err` holding a {@link TimeoutError} at the given point in time.
+     * Race it against other `Future`s to share one deadline between them, or bound a single `Future` with its `deadline` method.
+     *
+     * @example
+     * ```TypeScript
+     * const deadline = Future.deadline(new Date(Date.now() + 1000))
+     * const a = Future.race([fetchUser(id), deadline]) // Future<User, HttpError | TimeoutError>
+     * ```
+     */
+    public static deadline(date: Date): Future<never, TimeoutError> {
+        const ms = date.getTime() - Date.now()
+        return new Future((_, err, onCancel) => {
+            Future.timer(ms, onCancel, () => err(new TimeoutError(ms)))
+        })
+    }
+
+    /**
+     * Runs the `Future` returned by `factory` (or the given {@link Task}) until it succeeds or the policy gives up.
+     *
+     * If no attempt succeeds, the returned `Future` resolves to an `err` holding a {@link RetryError} with the errors of all attempts.
+     * If an attempt gets cancelled by someone else or panics, the returned `Future` resolves to its {@link Interruption} without retrying.
+     * Cancelling the returned `Future` cancels the running attempt and stops retrying.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.retry(() => fetchUser(id), {
+     *     backoff: Backoff.decorrelatedJitter({ base: 100, max: 5000 }),
+     *     maxAttempts: 5,
+     *     maxElapsed: 30_000,
+     *     shouldRetry: (err) => err.status >= 500,
+     * })
+     *
+     * const b = Future.retry(Task.from(() => fetchUser(id)))
+     * ```
+     */
+    public static retry<T, E>(
+        factory: (() => Future<T, E>) | Task<T, E>,
+        policy: RetryPolicy<E> = {}
+    ): Future<T, RetryError<E>> {
+        const run = typeof factory === "function" ? factory : () => factory.run()
+        const backoff = policy.backoff ?? Backoff.exponential()
+        const maxAttempts = policy.maxAttempts ?? 3
+        const maxElapsed = policy.maxElapsed ?? Infinity
+        const shouldRetry = policy.shouldRetry ?? (() => true)
+
+        return new Future((ok, err, onCancel) => {
+            const errors = new Array<E>()
+            const startTime = Date.now()
+            let current: Future<unknown, unknown> | undefined
+            let cancelled = false
+
+            onCancel(() => {
+                cancelled = true
+                current?.cancel()
+            })
+
+            const fail = (thrown: unknown) => err(capture(thrown))
+
+            const attempt = (n: number, previousDelay: number) => {
+                const future = run()
+                current = future
+                future.then((result) => {
+                    if (cancelled) {
+                        return
+                    }
+
+                    if (result.isOk()) {
+                        ok(result.unwrap())
+                        return
+                    }
+
+                    const error = result.unwrapErr() as E | Interruption
+                    if (isInterruption(error)) {
+                        err(error)
+                        return
+                    }
+
+                    errors.push(error)
+
+                    const delay = backoff(n, previousDelay)
+                    if (
+                        n >= maxAttempts ||
+                        Date.now() - startTime + delay > maxElapsed ||
+                        !shouldRetry(error, n)
+                    ) {
+                        err(new RetryError(errors))
+                        return
+                    }
+
+                    const sleep = Future.sleep(delay)
+                    current = sleep
+                    sleep.then(() => {
+                        if (!cancelled) {
+                            attempt(n + 1, delay)
+                        }
+                    }).catch(fail)
+                }).catch(fail)
+            }
+
+            attempt(1, 0)
+        })
+    }
+
+    /** @internal */
+    private static workerPool = new WorkerPool()
+
+    /**
+     * Configures the pool of workers used by {@link Future.do}.
+     *
+     * @example
+     * ```TypeScript
+     * Future.configureWorkers({ maxWorkers: 2, idleTimeout: 10_000 })
+     * ```
+     */
+    public static configureWorkers(options: WorkerPoolOptions): void {
+        Future.workerPool.configure(options)
+    }
+
+    /**
+     * Terminates all workers used by {@link Future.do}.
+     *
+     * `Future`s of running or waiting calls resolve to an `err` holding a {@link Cancelled}. Later calls spawn new workers.
+     *
+     * @example
+     * ```TypeScript
+     * afterAll(() => Future.shutdownWorkers())
+     * ```
+     */
+    public static shutdownWorkers(): void {
+        Future.workerPool.shutdown()
+    }
+
+    /**
+     * Creates a new `Future` from a function that is executed in a Web Worker (or a `worker_threads` worker in Node.js).
+     * The function must be a pure function that does not use any variables from the outer scope.
+     * Calls of the same function share one worker, cancelling the `Future` terminates the worker if no other call is running on it.
+     * The workers are pooled, see {@link Future.configureWorkers}.
+     *
+     * The arguments are passed to the function using the structured clone algorithm. The return value of the function must be serializable (if any).
+     * If the function throws, the `Future` resolves to a `Panic` whose `cause` is the thrown value, rebuilt as a {@link RemoteError} if it was an `Error`.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.do(() => 42)
+     * const b = Future.do(() => { throw new Error("Something went wrong") })
+     * const c = Future.do(() => ({ foo: "bar" }))
+     * const d = Future.do((x: number, y: number) => x + y, 40, 2)
+     *
+     * (await a).unwrap() // 42
+     * (await b).unwrapErr().message // "Something went wrong"
+     * (await c).unwrap() // { foo: "bar" }
+     * (await d).unwrap() // 42
+     * ```
+     */
+    public static do<A extends Array<unknown>, T>(fn: (...args: A) => T | PromiseLike<T>, ...args: A): Future<T, Panic> {
+        return Future.doWith(fn, args)
+    }
+
+    /**
+     * Like {@link Future.do}, but takes the arguments as an array followed by options.
+     *
+     * Objects listed in `options.transfer` (like `ArrayBuffer`s) are transferred to the worker instead of being copied and are no longer usable on the calling side.
+     *
+     * @example
+     * ```TypeScript
+     * const buffer = new Float64Array(1_000_000).buffer
+     * const a = Future.doWith(
+     *     (data: ArrayBuffer) => new Float64Array(data).reduce((sum, x) => sum + x, 0),
+     *     [buffer],
+     *     { transfer: [buffer] }
+     * )
+     *
+     * buffer.byteLength // 0
+     * ```
+     */
+    public static doWith<A extends Array<unknown>, T>(
+        fn: (...args: A) => T | PromiseLike<T>,
+        args: A,
+        options: DoOptions = {}
+    ): Future<T, Panic> {
+        return new Future((ok, err, onCancel) => {
+            onCancel(Future.workerPool.run(
+                fn.toString(),
+                fn.name,
+                { args, transfer: options.transfer ?? [] },
+                {
+                    ok: (value) => ok(value as T),
+                    err,
+                }
+            ))
+        }, options)
+    }
+
+    /**
+     * Applies a function to every item in workers of the pool used by {@link Future.do}.
+     * The function has the same restrictions as the one passed to {@link Future.do}.
+     *
+     * The items are split into chunks of `chunkSize` which are spread over up to `concurrency` workers.
+     * The values keep the order of the items. If the function failed for any item, the returned `Future` fails with a sparse array of the errors at the index of their item, like {@link Future.join}.
+     * Cancelling the `Future` cancels all chunks that are still running.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.parallelMap([1, 2, 3, 4], (x: number) => x * x, { concurrency: 2 })
+     *
+     * (await a).unwrap() // [1, 4, 9, 16]
+     * ```
+     */
+    // eslint-disable-next-line max-lines-per-function
+    public static parallelMap<I, T>(
+        items: Array<I>,
+        fn: (item: I) => T | PromiseLike<T>,
+        options: ParallelMapOptions = {}
+    ): Future<Array<T>, Array<Panic>> {
+        const concurrency = Math.max(1, options.concurrency ?? defaultMaxWorkers())
+        const chunkSize = Math.max(1, options.chunkSize ?? Math.ceil(items.length / (concurrency * 4)))
+        const main = mapChunkSource(fn.toString())
+
+        // eslint-disable-next-line max-lines-per-function
+        return new Future((ok, err, onCancel) => {
+            const outcomes = new Array<Result<T, Panic>>(items.length)
+            const running = new Set<() => void>()
+            let next = 0
+            let done = 0
+
+            onCancel(() => {
+                for (const cancel of running) {
+                    cancel()
+                }
+            })
+
+            const finish = () => {
+                const errors = new Array<Panic>(items.length)
+                let failed = false
+                for (const [index, outcome] of outcomes.entries()) {
+                    if (outcome.isErr()) {
+                        errors[index] = outcome.error as Panic
+                        failed = true
+                    }
+                }
+
+                if (failed) {
+                    err(errors)
+                }
+                else {
+                    ok(outcomes.map((outcome) => outcome.unwrap()))
+                }
+            }
+
+            const startChunk = () => {
+                const start = next
+                const chunk = items.slice(start, start + chunkSize)
+                next += chunk.length
+
+                // registered before the job starts, because a job that can't be started fails synchronously
+                let cancelJob = () => undefined as void
+                const cancel = () => cancelJob()
+                running.add(cancel)
+
+                const settleChunk = (chunkOutcomes: Array<Result<T, Panic>>) => {
+                    running.delete(cancel)
+                    chunkOutcomes.forEach((outcome, i) => {
+                        outcomes[start + i] = outcome
+                    })
+                    done += chunk.length
+                    if (done === items.length) {
+                        finish()
+                    }
+                    else if (next < items.length) {
+                        startChunk()
+                    }
+                }
+
+                cancelJob = Future.workerPool.run(main, fn.name, { args: [chunk], transfer: [], spread: true }, {
+                    ok: (values) => settleChunk((values as Array<{ isOk: boolean, value: unknown }>).map(
+                        ({ isOk, value }) => isOk
+                            ? Result.ok(value as T)
+                            : Result.err(remotePanic(value as SerializedThrown))
+                    )),
+                    err: (error) => settleChunk(chunk.map(() => Result.err(error))),
+                })
+            }
+
+            if (items.length === 0) {
+                ok([])
+                return
+            }
+
+            while (next < items.length && running.size < concurrency) {
+                startChunk()
+            }
+        }, options)
+    }
+
+    /**
+     * Bounds the time `this` `Future` may take.
+     *
+     * If `this` `Future` does not settle within `ms` milliseconds, the returned `Future` resolves to an `err` holding a {@link TimeoutError} and `this` `Future` gets cancelled.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.do(() => heavyComputation()).timeout(1000)
+     *
+     * (await a).unwrapErr() // TimeoutError if the computation took longer than a second
+     * ```
+     */
+    public timeout(ms: number): Future<T, E | TimeoutError> {
+        return new Future<T, E | TimeoutError>((ok, err, onCancel) => {
+            onCancel(() => this.cancel())
+            const clear = Future.timer(ms, onCancel, () => {
+                err(new TimeoutError(ms))
+                this.cancel("timeout")
+            })
+            this.then((thisResult) => {
+                clear()
+                thisResult.futureExecutor(ok, err)
+            })
+        })
+    }
+
+    /**
+     * Like {@link Future.timeout}, but with a point in time instead of a duration. The static `Future.deadline` creates a `Future` that only fails at that point in time.
+     *
+     * @example
+     * ```TypeScript
+     * const deadline = new Date(Date.now() + 1000)
+     * const a = fetchUser(id).deadline(deadline)
+     * const b = fetchConfig().deadline(deadline)
+     * ```
+     */
+    public deadline(date: Date): Future<T, E | TimeoutError> {
+        return this.timeout(date.getTime() - Date.now())
+    }
+
+    /**
+     * Execute another `Future` after `this` one has resolved successfully.
+     *
+     * This function can be used to chain two `Future`s together and ensure that the final `Future` isn't resolved until both have finished. The function provided is yielded the successful result of `this` `Future` and returns another value which can be converted into a `Future`.
+     *
+     * Note that because {@link Result} implements the {@link IntoFuture} interface `this` method can also be useful for chaining fallible and serial computations onto the end of one `Future`.
+     * The error type of the returned `Future` joins the error types of `this` `Future` and of the one `fn` returns.
+     *
+     * If `this` `Future` is dropped, panics, or completes with an error then the provided function `f` is never called.
+     *
+     * Note that `this` function consumes the receiving `Future` and returns a wrapped version of it.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.ok(42)
+     * const b = a.andThen((value) => Future.ok(value + 1))
+     *
+     * (await b).unwrap() // 43
+     * ```
+     */
+    public andThen<U, F = E>(fn: (value: T) => Future<U, F> | IntoFuture<U, F | Interruption>): Future<U, E | F> {
+        return this.chain<U, E | F>((thisResult, ok, err, onCancel) => {
+            if (thisResult.isOk()) {
+                const other = Future.into(fn(thisResult.unwrap()))
+                onCancel(() => other.cancel())
+                other.futureExecutor(ok, err)
+            }
+            else {
+                err(thisResult.unwrapErr())
+            }
+        })
+    }
+
+    /**
+     * Execute another `Future` if `this` one resolves with an error.
+     *
+     * Return a `Future` that passes along `this` `Future`'s value if it succeeds, and otherwise passes the error to the function `f` and waits for the `Future` it returns. The function may also simply return a value that can be converted into a `Future`.
+     *
+     * Note that because {@link Result} implements the {@link IntoFuture} interface `this` method can also be useful for chaining together fallback computations, where when one fails, the next is attempted.
+     * The error type of the returned `Future` is the one of the `Future` `f` returns, because the error of `this` one is handled.
+     *
+     * If `this` `Future` is dropped, panics, gets cancelled or completes successfully then the provided function f is never called.
+     *
+     * Note that `this` function consumes the receiving `Future` and returns a wrapped version of it.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.err("Something went wrong")
+     * const b = a.orElse((err) => Future.ok(42))
+     *
+     * (await b).unwrap() // 42
+     * ```
+     */
+    public orElse<U, F = E>(f: (err: E) => Future<U, F> | IntoFuture<U, F | Interruption>): Future<T | U, F> {
+        return this.chain<T | U, F>((thisResult, ok, err, onCancel) => {
+            if (thisResult.isOk()) {
+                ok(thisResult.unwrap())
+            }
+            else if (isInterruption(thisResult.error)) {
+                err(thisResult.error)
+            }
+            else {
+                const other = Future.into(f(thisResult.error as E))
+                onCancel(() => other.cancel())
+                other.futureExecutor(ok, err)
+            }
+        })
+    }
+
+    /**
+     * Map `this` `Future`’s result to a different type, returning a new `Future` of the resulting type.
+     *
+     * This function is similar to the `Optio`::map` where it will change the type of the underlying `Future`. This is useful to chain along a computation once a `Future` has been resolved.
+     *
+     * The function provided will only be called if `this` `Future` is resolved successfully. If `this` `Future` returns an error, panics, or is dropped, then the function provided will never be invoked.
+     *
+     * Note that `this` function consumes the receiving `Future` and returns a wrapped version of it.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.ok(42)
+     * const b = a.map((value) => value + 1)
+     *
+     * (await b).unwrap() // 43
+     * ```
+     */
+    public map<U>(f: (value: T) => U): Future<U, E> {
+        return this.chain((thisResult, ok, err) => {
+            if (thisResult.isOk()) {
+                ok(f(thisResult.unwrap()))
+            }
+            else {
+                err(thisResult.unwrapErr())
+            }
+        })
+    }
+
+    /**
+     * Maps the error of `this` `Future`, leaving a value and an {@link Interruption} untouched.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.err<number, string>("Something went wrong")
+     * const b = a.mapErr((err) => new Error(err)) // Future<number, Error>
+     * ```
+     */
+    public mapErr<F>(f: (err: E) => F): Future<T, F> {
+        return this.chain((thisResult, ok, err) => {
+            if (thisResult.isOk()) {
+                ok(thisResult.value)
+            }
+            else if (isInterruption(thisResult.error)) {
+                err(thisResult.error)
+            }
+            else {
+                err(f(thisResult.error as E))
+            }
+        })
+    }
+
+    /**
+     * Maps the value of `this` `Future` with `onOk` and its error with `onErr`, leaving an {@link Interruption} untouched.
+     *
+     * @example
+     * ```TypeScript
+     * const a = fetchUser(id).mapBoth((user) => user.name, (err) => err.status) // Future<string, number>
+     * ```
+     */
+    public mapBoth<U, F>(onOk: (value: T) => U, onErr: (err: E) => F): Future<U, F> {
+        return this.chain((thisResult, ok, err) => {
+            if (thisResult.isOk()) {
+                ok(onOk(thisResult.value))
+            }
+            else if (isInterruption(thisResult.error)) {
+                err(thisResult.error)
+            }
+            else {
+                err(onErr(thisResult.error as E))
+            }
+        })
+    }
+
+    /**
+     * Calls `f` with the value of `this` `Future` if it succeeds and passes the outcome along unchanged.
+     *
+     * @example
+     * ```TypeScript
+     * const a = fetchUser(id).inspect((user) => console.log(`fetched ${user.name}`))
+     * ```
+     */
+    public inspect(f: (value: T) => void): Future<T, E> {
+        return this.chain((thisResult, ok, err) => {
+            if (thisResult.isOk()) {
+                f(thisResult.value)
+            }
+            thisResult.futureExecutor(ok, err)
+        })
+    }
+
+    /**
+     * Calls `f` with the error of `this` `Future` if it fails and passes the outcome along unchanged. `f` is not called if `this` `Future` got cancelled or panicked.
+     *
+     * @example
+     * ```TypeScript
+     * const a = fetchUser(id).inspectErr((err) => console.error(err))
+     * ```
+     */
+    public inspectErr(f: (err: E) => void): Future<T, E> {
+        return this.chain((thisResult, ok, err) => {
+            if (thisResult.isErr() && !isInterruption(thisResult.error)) {
+                f(thisResult.error as E)
+            }
+            thisResult.futureExecutor(ok, err)
+        })
+    }
+
+    /**
+     * Waits for `this` `Future` and runs one of the provided functions depending on its outcome.
+     * If `this` `Future` got cancelled or panicked, neither function is run and the returned `Promise` rejects with the {@link Interruption}.
+     * @returns A `Promise` of the return value of the function that was run.
+     *
+     * @example
+     * ```TypeScript
+     * const text = await fetchUser(id).match(
+     *     (user) => `Hello ${user.name}`,
+     *     (err) => `Failed with ${err.status}`
+     * )
+     *
+     * const same = await fetchUser(id).match({
+     *     ok: (user) => `Hello ${user.name}`,
+     *     err: (err) => `Failed with ${err.status}`,
+     * })
+     * ```
+     */
+    public match<U>(ok: (value: T) => U | PromiseLike<U>, err: (err: E) => U | PromiseLike<U>): Promise<U>
+    public match<U>(arms: { ok: (value: T) => U | PromiseLike<U>, err: (err: E) => U | PromiseLike<U> }): Promise<U>
+    public match<U>(
+        ok: ((value: T) => U | PromiseLike<U>) | { ok: (value: T) => U | PromiseLike<U>, err: (err: E) => U | PromiseLike<U> },
+        err?: (err: E) => U | PromiseLike<U>
+    ): Promise<U> {
+        const arms = typeof ok === "function" ? { ok, err: err as (err: E) => U | PromiseLike<U> } : ok
+        return this.then((result) => {
+            if (result.isOk()) {
+                return arms.ok(result.value as T)
+            }
+
+            if (isInterruption(result.error)) {
+                throw result.error
+            }
+
+            return arms.err(result.error as E)
+        })
+    }
+
+    /**
+     * Waits for `this` `Future` and returns its value, or `defaultValue` if it failed.
+     * Rejects with the {@link Interruption} if `this` `Future` got cancelled or panicked, like {@link Future.match}.
+     *
+     * @example
+     * ```TypeScript
+     * const a = await Future.err<number, string>("Something went wrong").unwrapOr(0) // 0
+     * ```
+     */
+    public unwrapOr(defaultValue: T): Promise<T> {
+        return this.match((value) => value, () => defaultValue)
+    }
+
+    /**
+     * Waits for `this` `Future` and returns its value, or computes one from the error if it failed.
+     * Rejects with the {@link Interruption} if `this` `Future` got cancelled or panicked, like {@link Future.match}.
+     *
+     * @example
+     * ```TypeScript
+     * const a = await Future.err<number, string>("Something went wrong").unwrapOrElse((err) => err.length) // 20
+     * ```
+     */
+    public unwrapOrElse(f: (err: E) => T | PromiseLike<T>): Promise<T> {
+        return this.match((value) => value, f)
+    }
+
+    /**
+     * Removes one level of nesting from a `Future` whose value is another `Future` (or anything implementing {@link IntoFuture}).
+     *
+     * @example
+     * ```TypeScript
+     * const a = Future.ok<Future<number, string>, Error>(Future.ok(42))
+     * const b = a.flatten() // Future<number, Error | string>
+     * ```
+     */
+    public flatten<U, F>(this: Future<IntoFuture<U, F>, E>): Future<U, E | F> {
+        return this.chain((thisResult, ok, err, onCancel) => {
+            if (thisResult.isOk()) {
+                const inner = Future.into(thisResult.value as IntoFuture<U, F>)
+                onCancel(() => inner.cancel())
+                inner.futureExecutor(ok, err)
+            }
+            else {
+                err(thisResult.error as E | Interruption)
+            }
+        })
+    }
+
+    /**
+     * Resolves to the outcome of `other` if `this` `Future` succeeds, otherwise to the error of `this` one.
+     * `other` is already running, use {@link Future.andThen} to start a computation only after `this` one succeeded.
+     *
+     * @example
+     * ```TypeScript
+     * const a = saveUser(user).and(Future.ok<string, IoError>("saved")) // Future<string, DbError | IoError>
+     * ```
+     */
+    public and<U, F>(other: Future<U, F>): Future<U, E | F> {
+        return new Future<U, E | F>((ok, err, onCancel) => {
+            onCancel(() => {
+                this.cancel()
+                other.cancel()
+            })
+            this.then((thisResult) => {
+                if (thisResult.isOk()) {
+                    other.futureExecutor(ok, err)
+                }
+                else {
+                    err(thisResult.error as E | Interruption)
+                }
+            })
+        })
+    }
+
+    /**
+     * Resolves to the value of `this` `Future` if it succeeds, otherwise to the outcome of `other`. If `this` `Future` got cancelled or panicked, the returned one resolves to its {@link Interruption}.
+     * `other` is already running, use {@link Future.orElse} to start a computation only after `this` one failed.
+     *
+     * @example
+     * ```TypeScript
+     * const a = fetchFromCache(id).or(fetchFromServer(id)) // Future<User, HttpError>
+     * ```
+     */
+    public or<U, F>(other: Future<U, F>): Future<T | U, F> {
+        return new Future<T | U, F>((ok, err, onCancel) => {
+            onCancel(() => {
+                this.cancel()
+                other.cancel()
+            })
+            this.then((thisResult) => {
+                if (thisResult.isOk()) {
+                    ok(thisResult.value as T)
+                }
+                else if (isInterruption(thisResult.error)) {
+                    err(thisResult.error)
+                }
+                else {
+                    other.futureExecutor(ok, err)
+                }
+            })
+        })
+    }
+
+    /**
+     * Calls `f` once `this` `Future` settled, no matter if it succeeded, failed or got cancelled, and passes the outcome along unchanged.
+     *
+     * @example
+     * ```TypeScript
+     * const a = fetchUser(id).finally(() => spinner.hide())
+     * ```
+     */
+    public override finally(f?: (() => void) | null): Future<T, E> {
+        return this.chain((thisResult, ok, err) => {
+            f?.()
+            thisResult.futureExecutor(ok, err)
+        })
+    }
+
+    /**
+     * Converts `this` `Future` into a `Promise` that resolves to its value and rejects with its error, for APIs that expect a plain `Promise`.
+     *
+     * @example
+     * ```TypeScript
+     * try {
+     *     const user = await fetchUser(id).toPromise()
+     * }
+     * catch (err) {
+     *     // err is the error of the Future
+     * }
+     * ```
+     */
+    public toPromise(): Promise<T> {
+        return this.then((result) => {
+            if (result.isOk()) {
+                return result.value as T
+            }
+
+            throw result.error
         })
     }
 }
@@ -0,0 +1,72 @@
+import { Panic } from "@frank-mayer/panic"
+import type { Interruption, PanicHook } from "./Future"
+import { toPanic } from "./RemoteError"
+
+/**
+ * The brand every {@link Interruption} created by this library carries, so that error handlers like {@link Future.orElse} can tell it apart from an error of the error type.
+ * @internal
+ */
+const brand = Symbol("Interruption")
+
+/**
+ * Brands `error` as an {@link Interruption}. Every `Cancelled` and `Panic` the library resolves a `Future` to because it got cancelled or panicked goes through here.
+ * @internal
+ */
+export const interrupt = <I extends Panic>(error: I): I => {
+    Object.defineProperty(error, brand, {
+        value: true,
+        writable: false,
+        configurable: false,
+        enumerable: false,
+    })
+    return error
+}
+
+/**
+ * Checks if `error` is an {@link Interruption}, as opposed to an error of the error type of a {@link Future}.
+ * @internal
+ */
+export const isInterruption = (error: unknown): error is Interruption =>
+    error instanceof Panic && brand in error
+
+/**
+ * The function set with {@link Future.setPanicHook}.
+ * @internal
+ */
+let panicHook: PanicHook | undefined = undefined
+
+/**
+ * Sets the function {@link capture} reports panics to.
+ * @internal
+ */
+export const setPanicHook = (hook: PanicHook | undefined): void => {
+    panicHook = hook
+}
+
+/**
+ * Turns a value thrown by an executor or callback into a {@link Panic} and reports it to the panic hook.
+ * @internal
+ */
+export const capture = (thrown: unknown): Panic => {
+    const panic = interrupt(toPanic(thrown))
+    panicHook?.(panic)
+    return panic
+}
+
+/**
+ * Turns the reason of a rejected `Promise` into an `Error`. Values that are no `Error` are wrapped in a `Panic`.
+ * @internal
+ */
+export const rejectionToError = (reason: unknown): Error => {
+    if (typeof reason == "object" && reason !== null) {
+        if (reason instanceof Error) {
+            return reason
+        }
+
+        if ("message" in reason) {
+            return new Panic(String(reason.message))
+        }
+    }
+
+    return new Panic(String(reason))
+}
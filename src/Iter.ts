@@ -0,0 +1,609 @@
+import { panic } from "@frank-mayer/panic"
+import { none, Option, some } from "./Option"
+import { err, ok, Result } from "./Result"
+
+/**
+ * Values that {@link Iter.max} and {@link Iter.min} can compare without a comparison function.
+ */
+export type Comparable = number | string | bigint
+
+const compare = (a: unknown, b: unknown): number =>
+    (a as Comparable) < (b as Comparable) ? -1 : (a as Comparable) > (b as Comparable) ? 1 : 0
+
+/**
+ * `Iter<T>` is a lazy sequence of values, like Rust's iterators. {@link Iter.next} returns the next value as an `Option`, `none` once the sequence is exhausted.
+ *
+ * Adapters like {@link Iter.map} or {@link Iter.filter} return a new `Iter` and do nothing until values are pulled from it.
+ * An `Iter` is consumed while it is iterated, so an adapter takes over its source and the source should not be used afterwards.
+ *
+ * An `Iter` is iterable itself, so it works with `for...of` and spreading.
+ *
+ * @example
+ * ```TypeScript
+ * const a = Iter.from([1, 2, 3, 4, 5])
+ *     .filter((x) => x % 2 === 1)
+ *     .map((x) => x * 10) // nothing is computed yet
+ *
+ * a.next() // some(10)
+ * a.collect() // [30, 50]
+ * a.next() // none()
+ * ```
+ */
+export class Iter<T> implements Iterable<T> {
+    /** @internal */
+    private readonly iterator: Iterator<T>
+
+    /**
+     * Creates a new `Iter` that pulls its values from `iterator`.
+     */
+    constructor(iterator: Iterator<T>) {
+        this.iterator = iterator
+    }
+
+    /**
+     * Creates a new `Iter` over the values of any iterable, like an `Array`, a `Set`, a `Map` or a generator.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Iter.from([1, 2, 3])
+     * const b = Iter.from(new Map([["a", 1]])) // Iter<[string, number]>
+     * const c = Iter.from("abc") // Iter<string>
+     * ```
+     */
+    public static from<T>(iterable: Iterable<T>): Iter<T> {
+        if (iterable instanceof Iter) {
+            return iterable
+        }
+
+        return new Iter(iterable[Symbol.iterator]())
+    }
+
+    /**
+     * Advances `this` `Iter` and returns the next value, or `none` if it is exhausted.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Iter.from([1, 2])
+     *
+     * a.next() // some(1)
+     * a.next() // some(2)
+     * a.next() // none()
+     * ```
+     */
+    public next(): Option<T> {
+        const step = this.iterator.next()
+        return step.done ? none() : some(step.value)
+    }
+
+    /**
+     * Makes `this` `Iter` usable with `for...of` and spreading. Values pulled this way are consumed like with {@link Iter.next}.
+     */
+    public *[Symbol.iterator](): Iterator<T> {
+        for (let item = this.next(); item.isSome(); item = this.next()) {
+            yield item.value as T
+        }
+    }
+
+    /** @internal */
+    private pipe<U>(adapter: (source: Iter<T>) => Iterator<U>): Iter<U> {
+        return new Iter(adapter(this))
+    }
+
+    /**
+     * Lazily maps each value with `f`.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 2, 3]).map((x) => x * 2).collect() // [2, 4, 6]
+     * ```
+     */
+    public map<U>(f: (value: T) => U): Iter<U> {
+        return this.pipe(function* (source) {
+            for (const value of source) {
+                yield f(value)
+            }
+        })
+    }
+
+    /**
+     * Lazily skips the values for which `predicate` returns `false`. A type guard narrows the type of the values.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 2, 3, 4]).filter((x) => x % 2 === 0).collect() // [2, 4]
+     * ```
+     */
+    public filter<U extends T>(predicate: (value: T) => value is U): Iter<U>
+    public filter(predicate: (value: T) => boolean): Iter<T>
+    public filter(predicate: (value: T) => boolean): Iter<T> {
+        return this.pipe(function* (source) {
+            for (const value of source) {
+                if (predicate(value)) {
+                    yield value
+                }
+            }
+        })
+    }
+
+    /**
+     * Lazily maps each value with `f` and keeps the values of the returned `some`s.
+     *
+     * @example
+     * ```TypeScript
+     * const parse = (s: string): Option<number> => ...
+     *
+     * Iter.from(["1", "x", "2"]).filterMap(parse).collect() // [1, 2]
+     * ```
+     */
+    public filterMap<U>(f: (value: T) => Option<U>): Iter<U> {
+        return this.pipe(function* (source) {
+            for (const value of source) {
+                const mapped = f(value)
+                if (mapped.isSome()) {
+                    yield mapped.value as U
+                }
+            }
+        })
+    }
+
+    /**
+     * Lazily yields the first `n` values. No more than `n` values are pulled from `this` `Iter`.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 2, 3]).take(2).collect() // [1, 2]
+     * ```
+     */
+    public take(n: number): Iter<T> {
+        return this.pipe(function* (source) {
+            for (let remaining = n; remaining > 0; remaining--) {
+                const item = source.next()
+                if (item.isNone()) {
+                    return
+                }
+
+                yield item.value as T
+            }
+        })
+    }
+
+    /**
+     * Lazily skips the first `n` values.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 2, 3]).skip(2).collect() // [3]
+     * ```
+     */
+    public skip(n: number): Iter<T> {
+        return this.pipe(function* (source) {
+            for (let skipped = 0; skipped < n; skipped++) {
+                if (source.next().isNone()) {
+                    return
+                }
+            }
+
+            yield* source
+        })
+    }
+
+    /**
+     * Lazily pairs the values of `this` `Iter` with the values of `other`, until one of them is exhausted.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 2, 3]).zip(["a", "b"]).collect() // [[1, "a"], [2, "b"]]
+     * ```
+     */
+    public zip<U>(other: Iterable<U>): Iter<[T, U]> {
+        return this.pipe(function* (source) {
+            const right = Iter.from(other)
+            for (const value of source) {
+                const item = right.next()
+                if (item.isNone()) {
+                    return
+                }
+
+                yield [value, item.value as U]
+            }
+        })
+    }
+
+    /**
+     * Lazily yields the values of `other` after the values of `this` `Iter`.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 2]).chain([3, 4]).collect() // [1, 2, 3, 4]
+     * ```
+     */
+    public chain<U>(other: Iterable<U>): Iter<T | U> {
+        return this.pipe(function* (source) {
+            yield* source
+            yield* other
+        })
+    }
+
+    /**
+     * Lazily pairs each value with its index.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from(["a", "b"]).enumerate().collect() // [[0, "a"], [1, "b"]]
+     * ```
+     */
+    public enumerate(): Iter<[number, T]> {
+        return this.pipe(function* (source) {
+            let index = 0
+            for (const value of source) {
+                yield [index++, value]
+            }
+        })
+    }
+
+    /**
+     * Lazily maps each value to an iterable with `f` and yields the values of the iterables.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 2]).flatMap((x) => [x, x * 10]).collect() // [1, 10, 2, 20]
+     * ```
+     */
+    public flatMap<U>(f: (value: T) => Iterable<U>): Iter<U> {
+        return this.pipe(function* (source) {
+            for (const value of source) {
+                yield* f(value)
+            }
+        })
+    }
+
+    /**
+     * Creates a {@link Peekable} which can look at the next value without consuming it.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Iter.from([1, 2]).peekable()
+     *
+     * a.peek() // some(1)
+     * a.next() // some(1)
+     * a.next() // some(2)
+     * ```
+     */
+    public peekable(): Peekable<T> {
+        return new Peekable(this[Symbol.iterator]())
+    }
+
+    /**
+     * Lazily yields the first value and then every `step`th value.
+     *
+     * Panics if `step` is not a positive integer.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([0, 1, 2, 3, 4, 5]).stepBy(2).collect() // [0, 2, 4]
+     * ```
+     */
+    public stepBy(step: number): Iter<T> {
+        if (!Number.isInteger(step) || step < 1) {
+            panic(`Step must be a positive integer, got ${step}`)
+        }
+
+        return this.pipe(function* (source) {
+            let index = 0
+            for (const value of source) {
+                if (index++ % step === 0) {
+                    yield value
+                }
+            }
+        })
+    }
+
+    /**
+     * Lazily yields every contiguous window of `size` values. The windows overlap and each one is a new array.
+     *
+     * Yields nothing if there are less than `size` values. Panics if `size` is not a positive integer.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 2, 3, 4]).windows(2).collect() // [[1, 2], [2, 3], [3, 4]]
+     * ```
+     */
+    public windows(size: number): Iter<Array<T>> {
+        if (!Number.isInteger(size) || size < 1) {
+            panic(`Window size must be a positive integer, got ${size}`)
+        }
+
+        return this.pipe(function* (source) {
+            const window = new Array<T>()
+            for (const value of source) {
+                window.push(value)
+                if (window.length > size) {
+                    window.shift()
+                }
+
+                if (window.length === size) {
+                    yield window.slice()
+                }
+            }
+        })
+    }
+
+    /**
+     * Lazily yields the values in chunks of `size`. The chunks do not overlap and the last one is shorter if the values do not divide evenly.
+     *
+     * Panics if `size` is not a positive integer.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 2, 3, 4, 5]).chunks(2).collect() // [[1, 2], [3, 4], [5]]
+     * ```
+     */
+    public chunks(size: number): Iter<Array<T>> {
+        if (!Number.isInteger(size) || size < 1) {
+            panic(`Chunk size must be a positive integer, got ${size}`)
+        }
+
+        return this.pipe(function* (source) {
+            let chunk = new Array<T>()
+            for (const value of source) {
+                chunk.push(value)
+                if (chunk.length === size) {
+                    yield chunk
+                    chunk = new Array<T>()
+                }
+            }
+
+            if (chunk.length !== 0) {
+                yield chunk
+            }
+        })
+    }
+
+    /**
+     * Consumes `this` `Iter` and collects its values into an array.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from(new Set([1, 2])).collect() // [1, 2]
+     * ```
+     */
+    public collect(): Array<T> {
+        return Array.from(this)
+    }
+
+    /**
+     * Returns the first value for which `predicate` returns `true`, or `none`. Stops consuming `this` `Iter` at the value that was found.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 2, 3]).find((x) => x > 1) // some(2)
+     * Iter.from([1, 2, 3]).find((x) => x > 3) // none()
+     * ```
+     */
+    public find<U extends T>(predicate: (value: T) => value is U): Option<U>
+    public find(predicate: (value: T) => boolean): Option<T>
+    public find(predicate: (value: T) => boolean): Option<T> {
+        for (const value of this) {
+            if (predicate(value)) {
+                return some(value)
+            }
+        }
+
+        return none()
+    }
+
+    /**
+     * Returns the index of the first value for which `predicate` returns `true`, or `none`.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from(["a", "b"]).position((x) => x === "b") // some(1)
+     * ```
+     */
+    public position(predicate: (value: T) => boolean): Option<number> {
+        let index = 0
+        for (const value of this) {
+            if (predicate(value)) {
+                return some(index)
+            }
+
+            index++
+        }
+
+        return none()
+    }
+
+    /**
+     * Returns the largest value, or `none` if `this` `Iter` is empty. If several values are equally large, the last one is returned.
+     *
+     * Numbers, strings and bigints are compared with `<` and `>`, other values need a `compare` function that returns a negative number if `a` is less than `b`, zero if they are equal and a positive number otherwise.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 3, 2]).max() // some(3)
+     * Iter.from(users).max((a, b) => a.age - b.age) // the oldest user
+     * ```
+     */
+    public max(this: Iter<Comparable>): Option<T>
+    public max(compare: (a: T, b: T) => number): Option<T>
+    public max(by: (a: T, b: T) => number = compare): Option<T> {
+        return this.reduce((max, value) => by(value, max) >= 0 ? value : max)
+    }
+
+    /**
+     * Returns the smallest value, or `none` if `this` `Iter` is empty. If several values are equally small, the first one is returned.
+     *
+     * Compares values like {@link Iter.max}.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([2, 1, 3]).min() // some(1)
+     * Iter.from(users).min((a, b) => a.age - b.age) // the youngest user
+     * ```
+     */
+    public min(this: Iter<Comparable>): Option<T>
+    public min(compare: (a: T, b: T) => number): Option<T>
+    public min(by: (a: T, b: T) => number = compare): Option<T> {
+        return this.reduce((min, value) => by(value, min) < 0 ? value : min)
+    }
+
+    /**
+     * Consumes `this` `Iter` and returns the last value, or `none` if it is empty.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 2, 3]).last() // some(3)
+     * ```
+     */
+    public last(): Option<T> {
+        return this.reduce((_, value) => value)
+    }
+
+    /**
+     * Returns the value at index `n`, or `none` if `this` `Iter` has no more than `n` values. The values before it are consumed.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Iter.from([1, 2, 3])
+     *
+     * a.nth(1) // some(2)
+     * a.nth(0) // some(3)
+     * a.nth(0) // none()
+     * ```
+     */
+    public nth(n: number): Option<T> {
+        return this.skip(n).next()
+    }
+
+    /**
+     * Reduces the values to one by repeatedly calling `f` with the result so far and the next value, starting with the first value.
+     * Returns `none` if `this` `Iter` is empty.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 2, 3]).reduce((a, b) => a + b) // some(6)
+     * Iter.from(new Array<number>()).reduce((a, b) => a + b) // none()
+     * ```
+     */
+    public reduce(f: (accumulator: T, value: T) => T): Option<T> {
+        return this.next().map((first) => this.fold(first as T, f))
+    }
+
+    /**
+     * Reduces the values to one by repeatedly calling `f` with the result so far and the next value, starting with `init`.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from([1, 2, 3]).fold("", (a, b) => a + b) // "123"
+     * ```
+     */
+    public fold<A>(init: A, f: (accumulator: A, value: T) => A): A {
+        let accumulator = init
+        for (const value of this) {
+            accumulator = f(accumulator, value)
+        }
+
+        return accumulator
+    }
+
+    /**
+     * Like {@link Iter.fold}, but `f` returns a `Result`. Stops at the first `err` and returns it, the remaining values are not consumed.
+     *
+     * @example
+     * ```TypeScript
+     * const add = (a: number, b: number): Result<number, string> =>
+     *     a + b > 100 ? err("overflow") : ok(a + b)
+     *
+     * Iter.from([1, 2, 3]).tryFold(0, add) // ok(6)
+     * Iter.from([50, 60, 70]).tryFold(0, add) // err("overflow"), 70 is not consumed
+     * ```
+     */
+    public tryFold<A, E>(init: A, f: (accumulator: A, value: T) => Result<A, E>): Result<A, E> {
+        let accumulator = init
+        for (const value of this) {
+            const result = f(accumulator, value)
+            if (result.isErr()) {
+                return err(result.error as E)
+            }
+
+            accumulator = result.value as A
+        }
+
+        return ok(accumulator)
+    }
+
+    /**
+     * Collects the values of an `Iter` of `Result`s into a `Result` of an array. Stops at the first `err` and returns it, the remaining values are not consumed.
+     *
+     * @example
+     * ```TypeScript
+     * Iter.from(["1", "2"]).map(parse).tryCollect() // ok([1, 2])
+     * Iter.from(["1", "x", "2"]).map(parse).tryCollect() // err("x is not a number"), "2" is not parsed
+     * ```
+     */
+    public tryCollect<U, E>(this: Iter<Result<U, E>>): Result<Array<U>, E> {
+        return this.tryFold(new Array<U>(), (values, result) => result.map((value) => {
+            values.push(value as U)
+            return values
+        }))
+    }
+}
+
+/**
+ * An {@link Iter} which can look at its next value without consuming it, created by {@link Iter.peekable}.
+ */
+export class Peekable<T> extends Iter<T> {
+    /** @internal */
+    private peeked: Option<T> | undefined
+
+    /**
+     * Returns the next value without consuming it, or `none` if `this` `Iter` is exhausted.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Iter.from([1, 2]).peekable()
+     *
+     * a.peek() // some(1)
+     * a.peek() // some(1)
+     * a.next() // some(1)
+     * a.peek() // some(2)
+     * ```
+     */
+    public peek(): Option<T> {
+        if (this.peeked === undefined) {
+            this.peeked = super.next()
+        }
+
+        return this.peeked
+    }
+
+    /**
+     * Consumes and returns the next value only if `predicate` returns `true` for it.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Iter.from([1, 2]).peekable()
+     *
+     * a.nextIf((x) => x > 1) // none()
+     * a.nextIf((x) => x === 1) // some(1)
+     * ```
+     */
+    public nextIf(predicate: (value: T) => boolean): Option<T> {
+        const item = this.peek()
+        if (item.isSome() && predicate(item.value as T)) {
+            this.peeked = undefined
+            return item
+        }
+
+        return none()
+    }
+
+    /**
+     * Advances `this` `Iter` and returns the next value, which is the peeked one if {@link Peekable.peek} was called before.
+     */
+    public override next(): Option<T> {
+        const item = this.peek()
+        this.peeked = undefined
+        return item
+    }
+}
@@ -0,0 +1,28 @@
+/**
+ * The error {@link BroadcastReceiver.recv} resolves to if the receiver fell so far behind that values were dropped.
+ *
+ * The receiver continues with the oldest value that was kept.
+ *
+ * @example
+ * ```TypeScript
+ * const [tx, rx] = broadcast<number>(2)
+ * tx.send(1)
+ * tx.send(2)
+ * tx.send(3)
+ *
+ * await rx.recv().match(() => 0, (e) => e.skipped) // 1
+ * (await rx.recv()).unwrap() // some(2)
+ * ```
+ */
+export class LaggedError extends Error {
+    /**
+     * The number of values the receiver missed.
+     */
+    public readonly skipped: number
+
+    constructor(skipped: number) {
+        super(`Receiver lagged behind by ${skipped} value${skipped === 1 ? "" : "s"}`)
+        this.name = "LaggedError"
+        this.skipped = skipped
+    }
+}
@@ -1,10 +1,24 @@
 import { panic } from "@frank-mayer/panic"
 import type { IntoFuture } from "./IntoFuture"
+import { err, ok, Result } from "./Result"
 
 /**
- * Type `Option` represents an optional value: every `Option` is either `some` and contains a value, or `none`, and does not.
+ * The functions passed to {@link Option.match} in object form.
+ */
+export interface OptionArms<T, U> {
+    some: (value: Readonly<T>) => U
+    none: () => U
+}
+
+/**
+ * The value type of an {@link Option}, distributed over unions.
  */
-export class Option<T> implements IntoFuture<T, null> {
+export type OptionValue<O> = O extends Option<infer T> ? T : never
+
+/**
+ * The methods shared by {@link Some} and {@link None}.
+ */
+abstract class OptionBase<T> implements IntoFuture<T, null> {
     protected readonly _value: T | undefined
 
     protected readonly _isSome: boolean
@@ -33,14 +47,9 @@ export class Option<T> implements IntoFuture<T, null> {
      * ```
      */
     public static some<T>(value: T): Option<T> {
-        return new Option(value, true)
+        return new Some(value)
     }
 
-    private static _none: Option<never> = new Option<never>(
-        undefined as never,
-        false
-    )
-
     /**
      * Creates a new `Option` representing no value.
      *
@@ -50,11 +59,222 @@ export class Option<T> implements IntoFuture<T, null> {
      * ```
      */
     public static none<T>(): Option<T> {
-        return Option._none as Option<T>
+        return noneInstance as Option<T>
+    }
+
+    /**
+     * Runs a generator function in which `yield*` on {@link Option.try} works like Rust's `?` operator.
+     *
+     * `yield*` on a `some` evaluates to the contained value, `yield*` on a `none` stops the generator and `none` is returned.
+     * If the generator returns, its return value is wrapped in a `some`.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Option.gen(function* () {
+     *     const x = yield* some(40).try()
+     *     const y = yield* some(2).try()
+     *     return x + y
+     * }) // some(42)
+     *
+     * const b = Option.gen(function* () {
+     *     const x = yield* some(40).try()
+     *     const y = yield* none<number>().try()
+     *     return x + y
+     * }) // none()
+     * ```
+     */
+    public static gen<T>(body: () => Generator<Option<never>, T, unknown>): Option<T> {
+        const iterator = body()
+        let step = iterator.next()
+
+        while (!step.done) {
+            const yielded = step.value
+            if (yielded.isNone()) {
+                iterator.return(undefined as never)
+                return none()
+            }
+
+            step = iterator.next(yielded.value)
+        }
+
+        return some(step.value)
+    }
+
+    /**
+     * Collects the values of all `Option`s into a single `Option`, or returns `none` if any of them is `none`.
+     *
+     * Accepts an array, a tuple or a record of `Option`s and keeps its shape.
+     *
+     * @example
+     * ```TypeScript
+     * Option.all([some(1), some(2)]) // some([1, 2])
+     * Option.all([some(1), none<number>()]) // none()
+     * Option.all({ name: some("Alice"), age: some(42) }) // some({ name: "Alice", age: 42 })
+     * ```
+     */
+    public static all<O extends [Option<unknown>, ...Array<Option<unknown>>]>(
+        options: [...O]
+    ): Option<{ [K in keyof O]: OptionValue<O[K]> }>
+    public static all<T>(options: Array<Option<T>>): Option<Array<T>>
+    public static all<O extends Record<string, Option<unknown>>>(options: O): Option<{ [K in keyof O]: OptionValue<O[K]> }>
+    public static all(options: Array<Option<unknown>> | Record<string, Option<unknown>>): Option<unknown> {
+        if (Array.isArray(options)) {
+            const values = new Array<unknown>()
+
+            for (const option of options) {
+                if (option.isNone()) {
+                    return none()
+                }
+
+                values.push(option.value)
+            }
+
+            return some(values)
+        }
+
+        const values: Record<string, unknown> = {}
+
+        for (const [key, option] of Object.entries(options)) {
+            if (option.isNone()) {
+                return none()
+            }
+
+            values[key] = option.value
+        }
+
+        return some(values)
+    }
+
+    /**
+     * Returns the first `some` of the given `Option`s, or `none` if all of them are `none`.
+     *
+     * The properties of a record are checked in the order of `Object.keys`.
+     *
+     * @example
+     * ```TypeScript
+     * Option.firstSome([none<number>(), some(1), some(2)]) // some(1)
+     * Option.firstSome([none<number>(), none<number>()]) // none()
+     * Option.firstSome({ env: readEnv("PORT"), config: readConfig("port") }) // the port from the environment, otherwise from the config
+     * ```
+     */
+    public static firstSome<O extends Option<unknown>>(options: Array<O>): Option<OptionValue<O>>
+    public static firstSome<O extends Record<string, Option<unknown>>>(options: O): Option<OptionValue<O[keyof O]>>
+    public static firstSome(options: Array<Option<unknown>> | Record<string, Option<unknown>>): Option<unknown> {
+        for (const option of Array.isArray(options) ? options : Object.values(options)) {
+            if (option.isSome()) {
+                return option
+            }
+        }
+
+        return none()
+    }
+
+    /**
+     * Collects the values of the `some`s and skips the `none`s.
+     *
+     * The values of an array are collected in an array, the ones of a record in a record that only has the keys of the `some`s.
+     *
+     * @example
+     * ```TypeScript
+     * Option.collect([some(1), none<number>(), some(2)]) // [1, 2]
+     * Option.collect({ a: some(1), b: none<number>() }) // { a: 1 }
+     * ```
+     */
+    public static collect<O extends Option<unknown>>(options: Array<O>): Array<OptionValue<O>>
+    public static collect<O extends Record<string, Option<unknown>>>(options: O): { [K in keyof O]?: OptionValue<O[K]> }
+    public static collect(options: Array<Option<unknown>> | Record<string, Option<unknown>>): unknown {
+        return Option.filterMap(options as Record<string, Option<unknown>>, (option) => option)
+    }
+
+    /**
+     * Calls `f` for every element of an array or every property of a record and collects the values of the returned `some`s, skipping the `none`s.
+     *
+     * @example
+     * ```TypeScript
+     * const parse = (s: string): Option<number> => ...
+     *
+     * Option.filterMap(["1", "x", "2"], parse) // [1, 2]
+     * Option.filterMap({ width: "1", height: "x" }, parse) // { width: 1 }
+     * ```
+     */
+    public static filterMap<I, O extends Option<unknown>>(
+        items: Array<I>,
+        f: (item: I, index: number) => O
+    ): Array<OptionValue<O>>
+    public static filterMap<I extends Record<string, unknown>, O extends Option<unknown>>(
+        items: I,
+        f: (item: I[keyof I], key: keyof I & string) => O
+    ): { [K in keyof I]?: OptionValue<O> }
+    public static filterMap(
+        items: Array<unknown> | Record<string, unknown>,
+        f: (item: unknown, key: never) => Option<unknown>
+    ): unknown {
+        if (Array.isArray(items)) {
+            const values = new Array<unknown>()
+
+            for (const [index, item] of items.entries()) {
+                const option = f(item, index as never)
+                if (option.isSome()) {
+                    values.push(option.value)
+                }
+            }
+
+            return values
+        }
+
+        const values: Record<string, unknown> = {}
+
+        for (const [key, item] of Object.entries(items)) {
+            const option = f(item, key as never)
+            if (option.isSome()) {
+                values[key] = option.value
+            }
+        }
+
+        return values
     }
 
     /**
-     * Checks if the option is `some`.
+     * Makes `this` option usable with `yield*` inside of {@link Option.gen} and {@link Future.gen}, like Rust's `?` operator.
+     *
+     * A `some` returns its value without yielding, a `none` yields itself to the runner which stops the generator.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Option.gen(function* () {
+     *     const user = yield* findUser(id).try()
+     *     return user.name
+     * })
+     * ```
+     */
+    public *try(): Generator<Option<never>, T, unknown> {
+        if (!this._isSome) {
+            return (yield this as unknown as Option<never>) as T
+        }
+
+        return this._value as T
+    }
+
+    /**
+     * Makes `this` option usable with `for...of` and spreading, which yield the value once if the option is `some` and nothing if it is `none`.
+     *
+     * @example
+     * ```TypeScript
+     * for (const x of some(42)) {
+     *     console.log(x) // 42
+     * }
+     *
+     * [...some(42), ...none<number>()] // [42]
+     * ```
+     */
+    public *[Symbol.iterator](): Generator<T, void, undefined> {
+        if (this._isSome) {
+            yield this._value as T
+        }
+    }
+
+    /**
+     * Checks if the option is `some`. Narrows `this` to {@link Some}, so its `value` can be read without unwrapping.
      *
      * @example
      * ```TypeScript
@@ -63,14 +283,18 @@ export class Option<T> implements IntoFuture<T, null> {
      *
      * a.isSome() // true
      * b.isSome() // false
+     *
+     * if (a.isSome()) {
+     *     a.value // 42
+     * }
      * ```
      */
-    public isSome(): boolean {
+    public isSome(): this is Some<T> {
         return this._isSome
     }
 
     /**
-     * Checks if the option is `none`.
+     * Checks if the option is `none`. Narrows `this` to {@link None}.
      *
      * @example
      * ```TypeScript
@@ -81,7 +305,7 @@ export class Option<T> implements IntoFuture<T, null> {
      * b.isNone() // true
      * ```
      */
-    public isNone(): boolean {
+    public isNone(): this is None<T> {
         return !this._isSome
     }
 
@@ -185,7 +409,7 @@ export class Option<T> implements IntoFuture<T, null> {
      */
     public or(other: Option<T>): Option<T> {
         if (this._isSome) {
-            return this
+            return this as unknown as Option<T>
         }
 
         return other
@@ -207,7 +431,7 @@ export class Option<T> implements IntoFuture<T, null> {
      */
     public orElse(defaultValue: () => Option<T>): Option<T> {
         if (this._isSome) {
-            return this
+            return this as unknown as Option<T>
         }
 
         return defaultValue()
@@ -256,6 +480,308 @@ export class Option<T> implements IntoFuture<T, null> {
         return none()
     }
 
+    /**
+     * Returns the contained `some` value.
+     * Panics with the given message if the value is a `none`.
+     *
+     * @example
+     * ```TypeScript
+     * const a = some(42)
+     * const b = none<number>()
+     *
+     * a.expect("the answer should exist") // 42
+     * b.expect("the answer should exist") // panics with "the answer should exist"
+     * ```
+     */
+    public expect(message: string): Readonly<T> {
+        if (this._isSome) {
+            return this._value as T
+        }
+
+        panic(message)
+    }
+
+    /**
+     * Returns `none` if the option is `none`, otherwise calls `predicate` with the contained value and returns `this` if it returns `true` or `none` if it returns `false`.
+     *
+     * @example
+     * ```TypeScript
+     * const a = some(42)
+     *
+     * a.filter(x => x % 2 === 0) // some(42)
+     * a.filter(x => x % 2 === 1) // none<number>()
+     * ```
+     */
+    public filter<U extends T>(predicate: (value: T) => value is U): Option<U>
+    public filter(predicate: (value: Readonly<T>) => boolean): Option<T>
+    public filter(predicate: (value: Readonly<T>) => boolean): Option<T> {
+        if (this._isSome && predicate(this._value as T)) {
+            return this as unknown as Option<T>
+        }
+
+        return none()
+    }
+
+    /**
+     * Zips `this` option with another one. Returns `some([a, b])` if both are `some`, otherwise `none`.
+     *
+     * @example
+     * ```TypeScript
+     * const a = some(42)
+     * const b = some("hello")
+     * const c = none<string>()
+     *
+     * a.zip(b) // some([42, "hello"])
+     * a.zip(c) // none<[number, string]>()
+     * ```
+     */
+    public zip<U>(other: Option<U>): Option<[T, U]> {
+        return this.zipWith(other, (a, b) => [a, b])
+    }
+
+    /**
+     * Zips `this` option with another one using the function `f`. Returns `some(f(a, b))` if both are `some`, otherwise `none`.
+     *
+     * @example
+     * ```TypeScript
+     * const a = some(40)
+     * const b = some(2)
+     *
+     * a.zipWith(b, (x, y) => x + y) // some(42)
+     * ```
+     */
+    public zipWith<U, R>(other: Option<U>, f: (value: T, otherValue: U) => R): Option<R> {
+        if (this._isSome && other.isSome()) {
+            return some(f(this._value as T, other.value as U))
+        }
+
+        return none()
+    }
+
+    /**
+     * Unzips an option containing a pair into a pair of options.
+     *
+     * @example
+     * ```TypeScript
+     * const a = some<[number, string]>([42, "hello"])
+     * const b = none<[number, string]>()
+     *
+     * a.unzip() // [some(42), some("hello")]
+     * b.unzip() // [none<number>(), none<string>()]
+     * ```
+     */
+    public unzip<A, B>(this: Option<readonly [A, B]>): [Option<A>, Option<B>] {
+        if (this.isSome()) {
+            const [a, b] = this.value
+            return [some(a), some(b)]
+        }
+
+        return [none(), none()]
+    }
+
+    /**
+     * Returns `some` if exactly one of `this` and `other` is `some`, otherwise `none`.
+     *
+     * @example
+     * ```TypeScript
+     * const a = some(42)
+     * const b = none<number>()
+     *
+     * a.xor(b) // some(42)
+     * b.xor(a) // some(42)
+     * a.xor(some(0)) // none<number>()
+     * ```
+     */
+    public xor(other: Option<T>): Option<T> {
+        if (this._isSome && other.isNone()) {
+            return this as unknown as Option<T>
+        }
+
+        if (!this._isSome && other.isSome()) {
+            return other
+        }
+
+        return none()
+    }
+
+    /**
+     * Removes one level of nesting from an `Option<Option<T>>`.
+     *
+     * @example
+     * ```TypeScript
+     * some(some(42)).flatten() // some(42)
+     * some(none<number>()).flatten() // none<number>()
+     * none<Option<number>>().flatten() // none<number>()
+     * ```
+     */
+    public flatten<U>(this: Option<Option<U>>): Option<U> {
+        if (this.isSome()) {
+            return this.value as Option<U>
+        }
+
+        return none()
+    }
+
+    /**
+     * Returns the provided default if the option is `none`, otherwise applies `f` to the contained value.
+     * Arguments passed to `mapOr` are eagerly evaluated; if you are passing the result of a function call, it is recommended to use `mapOrElse`, which is lazily evaluated.
+     *
+     * @example
+     * ```TypeScript
+     * const a = some("hello")
+     * const b = none<string>()
+     *
+     * a.mapOr(0, x => x.length) // 5
+     * b.mapOr(0, x => x.length) // 0
+     * ```
+     */
+    public mapOr<U>(defaultValue: U, f: (value: Readonly<T>) => U): U {
+        if (this._isSome) {
+            return f(this._value as T)
+        }
+
+        return defaultValue
+    }
+
+    /**
+     * Computes a default from `defaultFn` if the option is `none`, otherwise applies `f` to the contained value.
+     *
+     * @example
+     * ```TypeScript
+     * const a = some("hello")
+     * const b = none<string>()
+     *
+     * a.mapOrElse(() => 0, x => x.length) // 5
+     * b.mapOrElse(() => 0, x => x.length) // 0
+     * ```
+     */
+    public mapOrElse<U>(defaultFn: () => U, f: (value: Readonly<T>) => U): U {
+        if (this._isSome) {
+            return f(this._value as T)
+        }
+
+        return defaultFn()
+    }
+
+    /**
+     * Calls `f` with the contained value if the option is `some` and returns `this` unchanged.
+     *
+     * @example
+     * ```TypeScript
+     * some(42).inspect(x => console.log(x)).map(x => x + 1) // logs 42, some(43)
+     * ```
+     */
+    public inspect(f: (value: Readonly<T>) => void): Option<T> {
+        if (this._isSome) {
+            f(this._value as T)
+        }
+
+        return this as unknown as Option<T>
+    }
+
+    /**
+     * Returns `true` if the option is `some` and the contained value matches `predicate`.
+     *
+     * @example
+     * ```TypeScript
+     * some(42).isSomeAnd(x => x > 40) // true
+     * some(0).isSomeAnd(x => x > 40) // false
+     * none<number>().isSomeAnd(x => x > 40) // false
+     * ```
+     */
+    public isSomeAnd(predicate: (value: Readonly<T>) => boolean): boolean {
+        return this._isSome && predicate(this._value as T)
+    }
+
+    /**
+     * Returns `true` if the option is `none` or the contained value matches `predicate`.
+     *
+     * @example
+     * ```TypeScript
+     * some(42).isNoneOr(x => x > 40) // true
+     * some(0).isNoneOr(x => x > 40) // false
+     * none<number>().isNoneOr(x => x > 40) // true
+     * ```
+     */
+    public isNoneOr(predicate: (value: Readonly<T>) => boolean): boolean {
+        return !this._isSome || predicate(this._value as T)
+    }
+
+    /**
+     * Transforms the option into a `Result`, mapping `some(v)` to `ok(v)` and `none` to `err(error)`.
+     * Arguments passed to `okOr` are eagerly evaluated; if you are passing the result of a function call, it is recommended to use `okOrElse`, which is lazily evaluated.
+     *
+     * @example
+     * ```TypeScript
+     * some(42).okOr("missing") // ok(42)
+     * none<number>().okOr("missing") // err("missing")
+     * ```
+     */
+    public okOr<E>(error: E): Result<T, E> {
+        if (this._isSome) {
+            return ok(this._value as T)
+        }
+
+        return err(error)
+    }
+
+    /**
+     * Transforms the option into a `Result`, mapping `some(v)` to `ok(v)` and `none` to `err(f())`.
+     *
+     * @example
+     * ```TypeScript
+     * some(42).okOrElse(() => "missing") // ok(42)
+     * none<number>().okOrElse(() => "missing") // err("missing")
+     * ```
+     */
+    public okOrElse<E>(f: () => E): Result<T, E> {
+        if (this._isSome) {
+            return ok(this._value as T)
+        }
+
+        return err(f())
+    }
+
+    /**
+     * Transposes an `Option` of a `Result` into a `Result` of an `Option`.
+     *
+     * `none` is mapped to `ok(none)`, `some(ok(v))` to `ok(some(v))` and `some(err(e))` to `err(e)`.
+     *
+     * @example
+     * ```TypeScript
+     * some(ok<number, string>(42)).transpose() // ok(some(42))
+     * some(err<number, string>("error")).transpose() // err("error")
+     * none<Result<number, string>>().transpose() // ok(none())
+     * ```
+     */
+    public transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+        if (this.isNone()) {
+            return ok(none())
+        }
+
+        const result = this.value as Result<U, E>
+        if (result.isOk()) {
+            return ok(some(result.value as U))
+        }
+
+        return err(result.error as E)
+    }
+
+    /**
+     * Returns an iterator over the contained value, which yields the value once if the option is `some` and nothing if it is `none`, like iterating the option itself.
+     *
+     * @example
+     * ```TypeScript
+     * const a = some(42).iter()
+     *
+     * a.next() // { value: 42, done: false }
+     * a.next() // { value: undefined, done: true }
+     * ```
+     */
+    public iter(): Generator<T, void, undefined> {
+        return this[Symbol.iterator]()
+    }
+
     /**
      * Runs one of the provided functions depending on the value of the option.
      * @param some A function to run if `this` is `some`.
@@ -276,13 +802,72 @@ export class Option<T> implements IntoFuture<T, null> {
      *     x => x * 2,
      *     () => 0
      * ) // 0
+     *
+     * b.match({
+     *     some: x => x * 2,
+     *     none: () => 0,
+     * }) // 0
      * ```
      */
-    public match<U>(some: (value: Readonly<T>) => U, none: () => U): U {
-        return this._isSome ? some(this._value as T) : none()
+    public match<U>(some: (value: Readonly<T>) => U, none: () => U): U
+    public match<U>(arms: OptionArms<T, U>): U
+    public match<U>(some: ((value: Readonly<T>) => U) | OptionArms<T, U>, none?: () => U): U {
+        const arms = typeof some === "function" ? { some, none: none as () => U } : some
+        return this._isSome ? arms.some(this._value as T) : arms.none()
+    }
+}
+
+/**
+ * The `some` variant of an {@link Option}, holding a `value`.
+ */
+export class Some<T> extends OptionBase<T> {
+    protected declare readonly _isSome: true
+
+    constructor(value: T) {
+        super(value, true)
+    }
+
+    /**
+     * The contained value.
+     */
+    public get value(): Readonly<T> {
+        return this._value as T
     }
 }
 
+/**
+ * The `none` variant of an {@link Option}, holding no value.
+ */
+export class None<T = never> extends OptionBase<T> {
+    protected declare readonly _isSome: false
+
+    constructor() {
+        super(undefined, false)
+    }
+}
+
+const noneInstance: Option<never> = new None<never>()
+
+/**
+ * Type `Option` represents an optional value: every `Option` is either `some` and contains a value, or `none`, and does not.
+ *
+ * An `Option` is either a {@link Some} or a {@link None}, {@link Option.isSome} and {@link Option.isNone} narrow it to one of them.
+ *
+ * @example
+ * ```TypeScript
+ * const a: Option<number> = find(items, predicate)
+ * if (a.isSome()) {
+ *     a.value // number
+ * }
+ * ```
+ */
+export type Option<T> = Some<T> | None<T>
+
+/**
+ * Creates and runs `Option`s, `instanceof Option` checks for both variants.
+ */
+export const Option = OptionBase
+
 /**
  * Creates a new `Option` representing a value.
  *
@@ -0,0 +1,260 @@
+import { panic } from "@frank-mayer/panic"
+import { Err, Ok, Result } from "./Result"
+import { None, Option, Some } from "./Option"
+
+const kind = Symbol("Pattern")
+
+type Primitive = string | number | boolean | bigint | symbol | null | undefined
+
+/**
+ * A type guard for any parameter type. Declared as a method, so guards with narrower parameters are assignable to it.
+ */
+type Guard<N> = { is(value: unknown): value is N }["is"]
+
+/**
+ * A pattern that matches any value.
+ */
+export interface WildcardPattern {
+    readonly [kind]: "_"
+}
+
+/**
+ * A pattern that matches an `ok` whose value matches `inner`.
+ */
+export interface OkPattern<Q> {
+    readonly [kind]: "ok"
+    readonly inner: Q
+}
+
+/**
+ * A pattern that matches an `err` whose error matches `inner`.
+ */
+export interface ErrPattern<Q> {
+    readonly [kind]: "err"
+    readonly inner: Q
+}
+
+/**
+ * A pattern that matches a `some` whose value matches `inner`.
+ */
+export interface SomePattern<Q> {
+    readonly [kind]: "some"
+    readonly inner: Q
+}
+
+/**
+ * A pattern that matches `none`.
+ */
+export interface NonePattern {
+    readonly [kind]: "none"
+}
+
+/**
+ * Any pattern, regardless of the value it matches.
+ */
+export type AnyPattern =
+    | Primitive
+    | WildcardPattern
+    | OkPattern<unknown>
+    | ErrPattern<unknown>
+    | SomePattern<unknown>
+    | NonePattern
+    | ((value: never) => boolean)
+
+/**
+ * The patterns that can match a value of type `V`.
+ *
+ * Besides the patterns built with {@link Pattern}, a primitive literal matches values equal to it and a function is a guard that matches values it returns `true` for.
+ */
+export type PatternOf<V> =
+    | WildcardPattern
+    | ((value: V) => boolean)
+    | (V extends Primitive ? V : never)
+    | (V extends Ok<infer T, unknown> ? OkPattern<PatternOf<T>> : never)
+    | (V extends Err<unknown, infer E> ? ErrPattern<PatternOf<E>> : never)
+    | (V extends Some<infer T> ? SomePattern<PatternOf<T>> : never)
+    | (V extends None<unknown> ? NonePattern : never)
+
+/**
+ * Splits `V` into the cases a {@link Matcher} has to cover, one for every variant of every nested `Result` and `Option`.
+ */
+export type Cases<V> =
+    V extends Ok<infer T, infer E> ? (Cases<T> extends infer X ? (X extends unknown ? Ok<X, E> : never) : never)
+    : V extends Err<infer T, infer E> ? (Cases<E> extends infer X ? (X extends unknown ? Err<T, X> : never) : never)
+    : V extends Some<infer T> ? (Cases<T> extends infer X ? (X extends unknown ? Some<X> : never) : never)
+    : V
+
+/**
+ * The cases a pattern covers for sure. Guards cover nothing, because they can reject any value.
+ */
+export type Covered<Q> =
+    Q extends WildcardPattern ? unknown
+    : Q extends OkPattern<infer I> ? Ok<Covered<I>, unknown>
+    : Q extends ErrPattern<infer I> ? Err<unknown, Covered<I>>
+    : Q extends SomePattern<infer I> ? Some<Covered<I>>
+    : Q extends NonePattern ? None<unknown>
+    : Q extends (value: never) => boolean ? never
+    : Q
+
+/**
+ * The value a handler receives for a pattern: the part of `V` matched by the innermost pattern, `undefined` for `none`.
+ */
+export type Selected<V, Q> =
+    Q extends WildcardPattern ? V
+    : Q extends OkPattern<infer I> ? (V extends Ok<infer T, unknown> ? Selected<T, I> : never)
+    : Q extends ErrPattern<infer I> ? (V extends Err<unknown, infer E> ? Selected<E, I> : never)
+    : Q extends SomePattern<infer I> ? (V extends Some<infer T> ? Selected<T, I> : never)
+    : Q extends NonePattern ? undefined
+    : Q extends Guard<infer N> ? N
+    : Q extends (value: never) => boolean ? V
+    : Q
+
+/**
+ * Builds the patterns used by {@link match}.
+ *
+ * @example
+ * ```TypeScript
+ * const { ok, err, some, none, _ } = Pattern
+ *
+ * ok(some((x: number) => x > 0)) // matches an ok holding a positive number
+ * err("not found") // matches an err holding "not found"
+ * ok(_) // matches any ok
+ * ```
+ */
+export const Pattern = {
+    /**
+     * Matches any value.
+     */
+    _: { [kind]: "_" } as WildcardPattern,
+
+    /**
+     * Matches an `ok` whose value matches `inner`.
+     */
+    ok: <Q extends AnyPattern>(inner: Q): OkPattern<Q> => ({ [kind]: "ok", inner }),
+
+    /**
+     * Matches an `err` whose error matches `inner`.
+     */
+    err: <Q extends AnyPattern>(inner: Q): ErrPattern<Q> => ({ [kind]: "err", inner }),
+
+    /**
+     * Matches a `some` whose value matches `inner`.
+     */
+    some: <Q extends AnyPattern>(inner: Q): SomePattern<Q> => ({ [kind]: "some", inner }),
+
+    /**
+     * Matches `none`.
+     */
+    none: { [kind]: "none" } as NonePattern,
+}
+
+const isPatternNode = (pattern: unknown): pattern is Exclude<AnyPattern, Primitive | ((value: never) => boolean)> =>
+    typeof pattern === "object" && pattern !== null && kind in pattern
+
+/**
+ * Checks if `value` matches `pattern`.
+ * @returns The value selected by the innermost pattern or `undefined` if `value` does not match.
+ */
+const test = (pattern: unknown, value: unknown): { selected: unknown } | undefined => {
+    if (typeof pattern === "function") {
+        return pattern(value) ? { selected: value } : undefined
+    }
+
+    if (!isPatternNode(pattern)) {
+        return pattern === value ? { selected: value } : undefined
+    }
+
+    switch (pattern[kind]) {
+        case "_":
+            return { selected: value }
+        case "ok":
+            return value instanceof Result && value.isOk() ? test(pattern.inner, value.value) : undefined
+        case "err":
+            return value instanceof Result && value.isErr() ? test(pattern.inner, value.error) : undefined
+        case "some":
+            return value instanceof Option && value.isSome() ? test(pattern.inner, value.value) : undefined
+        case "none":
+            return value instanceof Option && value.isNone() ? { selected: undefined } : undefined
+    }
+}
+
+/**
+ * Matches a value against patterns, created by {@link match}.
+ *
+ * `V` is the type of the value, `U` the union of the return types of the handlers and `R` the cases no pattern covered yet.
+ */
+export class Matcher<V, U, R> {
+    /** @internal */
+    private readonly value: V
+
+    /** @internal */
+    private readonly matched: { result: U } | undefined
+
+    /** @internal */
+    constructor(value: V, matched: { result: U } | undefined) {
+        this.value = value
+        this.matched = matched
+    }
+
+    /**
+     * Adds a case. If no earlier case matched and `value` matches `pattern`, `handler` is called with the value selected by the innermost pattern.
+     */
+    public with<Q extends PatternOf<V>, H>(
+        pattern: Q,
+        handler: (value: Selected<V, Q>) => H
+    ): Matcher<V, U | H, Exclude<R, Covered<Q>>> {
+        if (this.matched) {
+            return this as unknown as Matcher<V, U | H, Exclude<R, Covered<Q>>>
+        }
+
+        const match = test(pattern, this.value)
+        return new Matcher<V, U | H, Exclude<R, Covered<Q>>>(
+            this.value,
+            match && { result: handler(match.selected as Selected<V, Q>) }
+        )
+    }
+
+    /**
+     * Returns the result of the handler that matched.
+     *
+     * Only compiles if the cases cover every possible value. Otherwise the compiler expects an argument whose type shows the missing cases.
+     * Panics if no case matched, which can only happen if the types were bypassed.
+     */
+    public exhaustive(...missing: [R] extends [never] ? [] : [missing: R]): U
+    public exhaustive(): U {
+        if (!this.matched) {
+            panic("No pattern matched the value")
+        }
+
+        return this.matched.result
+    }
+
+    /**
+     * Returns the result of the handler that matched or calls `handler` with the value if no case matched.
+     */
+    public otherwise<H>(handler: (value: V) => H): U | H {
+        return this.matched ? this.matched.result : handler(this.value)
+    }
+}
+
+/**
+ * Starts matching `value` against patterns built with {@link Pattern}.
+ *
+ * Cases are tried in order and the first one that matches wins. {@link Matcher.exhaustive} checks at compile time that the cases cover every variant of the nested `Result`s and `Option`s in `value`.
+ *
+ * @example
+ * ```TypeScript
+ * const { ok, err, some, none, _ } = Pattern
+ * const a: Result<Option<number>, "not found" | "forbidden"> = lookup(id)
+ *
+ * const text = match(a)
+ *     .with(ok(some((x) => x > 0)), (x) => `positive ${x}`)
+ *     .with(ok(some(_)), (x) => `not positive ${x}`)
+ *     .with(ok(none), () => "empty")
+ *     .with(err("not found"), () => "missing")
+ *     .with(err(_), (e) => `failed with ${e}`)
+ *     .exhaustive()
+ * ```
+ */
+export const match = <V>(value: V): Matcher<V, never, Cases<V>> =>
+    new Matcher(value, undefined)
@@ -0,0 +1,130 @@
+import { Panic } from "@frank-mayer/panic"
+
+/**
+ * An error that was thrown inside of a worker and rebuilt on the calling side.
+ *
+ * It keeps the class name, message, stack and cause of the original error, own enumerable properties of the original error are copied onto it.
+ * {@link Future.do} resolves to a {@link Panic} whose `cause` is the `RemoteError`.
+ *
+ * @example
+ * ```TypeScript
+ * const a = Future.do(() => { throw new TypeError("Something went wrong") })
+ *
+ * const cause = (await a).unwrapErr().cause as RemoteError
+ * cause.name // "TypeError"
+ * cause.stack // the stack inside of the worker
+ * ```
+ */
+export class RemoteError extends Error {
+    /**
+     * The rebuilt cause of the original error.
+     */
+    public readonly cause: unknown
+
+    constructor(name: string, message: string, stack: string | undefined, cause: unknown) {
+        super(message)
+        this.name = name
+        if (stack !== undefined) {
+            this.stack = stack
+        }
+        this.cause = cause
+    }
+}
+
+/**
+ * A value thrown inside of a worker, in a form that survives the structured clone algorithm.
+ * @internal
+ */
+export type SerializedThrown =
+    | {
+        isError: false
+        value: unknown
+    }
+    | {
+        isError: true
+        name: string
+        message: string
+        stack: string | undefined
+        cause: SerializedThrown | undefined
+        props: Record<string, SerializedThrown>
+    }
+
+/**
+ * Source of the `serialize(value, seen)` function that turns a thrown value into a {@link SerializedThrown} inside of a worker.
+ * Values that can't be cloned are converted to strings.
+ * @internal
+ */
+export const serializeSource = [
+    "const cloneable = (value) => {",
+    "if (typeof structuredClone !== \"function\") { return value; }",
+    "try { structuredClone(value); return value; } catch (_) { return String(value); }",
+    "};",
+    "const serialize = (value, seen) => {",
+    "if (!(value instanceof Error) || seen.has(value)) { return { isError: false, value: cloneable(value) }; }",
+    "seen.add(value);",
+    "const props = {};",
+    "for (const key of Object.keys(value)) { if (key !== \"cause\") { props[key] = serialize(value[key], seen); } }",
+    "return {",
+    "isError: true, name: value.name, message: value.message, stack: value.stack,",
+    "cause: \"cause\" in value ? serialize(value.cause, seen) : undefined,",
+    "props,",
+    "};",
+    "};",
+].join("")
+
+const describe = (value: unknown): string => {
+    if (typeof value == "object" && value !== null) {
+        if ("message" in value) {
+            return String(value.message)
+        }
+
+        try {
+            return JSON.stringify(value)
+        }
+        catch {
+            return String(value)
+        }
+    }
+
+    return String(value)
+}
+
+const revive = (serialized: SerializedThrown): unknown => {
+    if (!serialized.isError) {
+        return serialized.value
+    }
+
+    const error = new RemoteError(
+        serialized.name,
+        serialized.message,
+        serialized.stack,
+        serialized.cause && revive(serialized.cause)
+    )
+    for (const key of Object.keys(serialized.props)) {
+        (error as unknown as Record<string, unknown>)[key] = revive(serialized.props[key] as SerializedThrown)
+    }
+
+    return error
+}
+
+/**
+ * Creates a {@link Panic} with the message of `error` and `error` as its `cause`.
+ * @internal
+ */
+export const toPanic = (error: unknown): Panic => {
+    const panic = new Panic(describe(error))
+    Object.defineProperty(panic, "cause", {
+        value: error,
+        writable: true,
+        configurable: true,
+        enumerable: false,
+    })
+    return panic
+}
+
+/**
+ * Rebuilds a value thrown inside of a worker as a {@link Panic} whose `cause` is a {@link RemoteError} (or the thrown value if it was no `Error`).
+ * @internal
+ */
+export const remotePanic = (serialized: SerializedThrown): Panic =>
+    toPanic(revive(serialized))
@@ -1,11 +1,49 @@
 import { panic } from "@frank-mayer/panic"
 import type { IntoFuture } from "./IntoFuture"
+import { none, Option, some } from "./Option"
 
 /**
- * `Result<T, E>` is the type used for returning and propagating errors.
- * Use `ok` to return a successful result and `err` to return an error.
+ * Formats the payload of a `Result` for the message of a panic.
+ */
+const describe = (value: unknown): string => {
+    if (typeof value == "object" && value !== null) {
+        if ("message" in value) {
+            return String(value.message)
+        }
+
+        try {
+            return JSON.stringify(value)
+        }
+        catch {
+            return String(value)
+        }
+    }
+
+    return String(value)
+}
+
+/**
+ * The functions passed to {@link Result.match} in object form.
+ */
+export interface ResultArms<T, E, U> {
+    ok: (value: Readonly<T>) => U
+    err: (error: Readonly<E>) => U
+}
+
+/**
+ * The `ok` type of a {@link Result}, distributed over unions.
+ */
+export type ResultValue<R> = R extends Result<infer T, unknown> ? T : never
+
+/**
+ * The `err` type of a {@link Result}, distributed over unions.
+ */
+export type ResultError<R> = R extends Result<unknown, infer E> ? E : never
+
+/**
+ * The methods shared by {@link Ok} and {@link Err}.
  */
-export class Result<T, E> implements IntoFuture<T, E> {
+abstract class ResultBase<T, E> implements IntoFuture<T, E> {
     protected readonly _value: T | E
 
     protected readonly _isOk: boolean
@@ -34,7 +72,7 @@ export class Result<T, E> implements IntoFuture<T, E> {
      * ```
      */
     public static ok<T, E>(value: T): Result<T, E> {
-        return new Result<T, E>(value, true)
+        return new Ok<T, E>(value)
     }
 
     /**
@@ -47,11 +85,284 @@ export class Result<T, E> implements IntoFuture<T, E> {
      * ```
      */
     public static err<T, E>(error: E): Result<T, E> {
-        return new Result<T, E>(error, false)
+        return new Err<T, E>(error)
+    }
+
+    /**
+     * Runs a generator function in which `yield*` on {@link Result.try} works like Rust's `?` operator.
+     *
+     * `yield*` on an `ok` evaluates to the contained value, `yield*` on an `err` stops the generator and the `err` is returned.
+     * If the generator returns, its return value is wrapped in an `ok`.
+     * The error types of all yielded `Result`s are joined into the error type of the returned `Result`.
+     *
+     * @example
+     * ```TypeScript
+     * const parse = (s: string): Result<number, string> => ...
+     * const check = (n: number): Result<number, RangeError> => ...
+     *
+     * const a = Result.gen(function* () {
+     *     const x = yield* parse("42").try()
+     *     const y = yield* check(x).try()
+     *     return x + y
+     * }) // Result<number, string | RangeError>
+     * ```
+     */
+    public static gen<Y extends Result<never, unknown>, T>(
+        body: () => Generator<Y, T, unknown>
+    ): Result<T, Y extends Result<never, infer E> ? E : never> {
+        const iterator = body()
+        let step = iterator.next()
+
+        while (!step.done) {
+            const yielded = step.value
+            if (yielded.isErr()) {
+                iterator.return(undefined as never)
+                return yielded as unknown as Result<T, Y extends Result<never, infer E> ? E : never>
+            }
+
+            step = iterator.next(yielded.value)
+        }
+
+        return ok(step.value)
+    }
+
+    /**
+     * Collects the values of all `Result`s into a single `Result`, or returns the first `err`.
+     *
+     * Accepts an array, a tuple or a record of `Result`s and keeps its shape.
+     *
+     * @example
+     * ```TypeScript
+     * const a = ok<number, string>(42)
+     * const b = ok<number, string>(1337)
+     * const c = err<number, string>("Something went wrong")
+     *
+     * Result.all([a, b]) // ok([42, 1337])
+     * Result.all([a, c, b]) // err("Something went wrong")
+     * Result.all({ user: parseUser(input), config: parseConfig(input) }) // Result<{ user: User, config: Config }, UserError | ConfigError>
+     * ```
+     */
+    public static all<R extends [Result<unknown, unknown>, ...Array<Result<unknown, unknown>>]>(
+        results: [...R]
+    ): Result<{ [K in keyof R]: ResultValue<R[K]> }, ResultError<R[number]>>
+    public static all<T, E>(results: Array<Result<T, E>>): Result<Array<T>, E>
+    public static all<R extends Record<string, Result<unknown, unknown>>>(
+        results: R
+    ): Result<{ [K in keyof R]: ResultValue<R[K]> }, ResultError<R[keyof R]>>
+    public static all(
+        results: Array<Result<unknown, unknown>> | Record<string, Result<unknown, unknown>>
+    ): Result<unknown, unknown> {
+        return Result.traverse(results as Record<string, Result<unknown, unknown>>, (result) => result)
+    }
+
+    /**
+     * Collects the values of all `Result`s into a single `Result`. Other than {@link Result.all}, it does not stop at the first `err` but collects all errors, like {@link Future.join}.
+     *
+     * Errors of an array or a tuple are collected in a sparse array, where each error is at the index of the `Result` that failed.
+     * Errors of a record are collected in a record keyed by the property of the `Result` that failed.
+     *
+     * @example
+     * ```TypeScript
+     * const a = ok<number, string>(42)
+     * const b = err<number, string>("Something went wrong")
+     * const c = err<number, string>("Something went wrong again")
+     *
+     * Result.allErrors([a, b, c]) // err([<1 empty item>, "Something went wrong", "Something went wrong again"])
+     * Result.allErrors({ a, b }) // err({ b: "Something went wrong" })
+     * ```
+     */
+    public static allErrors<R extends [Result<unknown, unknown>, ...Array<Result<unknown, unknown>>]>(
+        results: [...R]
+    ): Result<{ [K in keyof R]: ResultValue<R[K]> }, { [K in keyof R]?: ResultError<R[K]> }>
+    public static allErrors<T, E>(results: Array<Result<T, E>>): Result<Array<T>, Array<E>>
+    public static allErrors<R extends Record<string, Result<unknown, unknown>>>(
+        results: R
+    ): Result<{ [K in keyof R]: ResultValue<R[K]> }, { [K in keyof R]?: ResultError<R[K]> }>
+    public static allErrors(
+        results: Array<Result<unknown, unknown>> | Record<string, Result<unknown, unknown>>
+    ): Result<unknown, unknown> {
+        if (Array.isArray(results)) {
+            const values = new Array<unknown>()
+            const errors = new Array<unknown>(results.length)
+            let failed = false
+
+            for (const [index, result] of results.entries()) {
+                if (result.isOk()) {
+                    values.push(result.value)
+                }
+                else {
+                    errors[index] = result.error
+                    failed = true
+                }
+            }
+
+            return failed ? err(errors) : ok(values)
+        }
+
+        const [values, errors] = Result.partition(results)
+
+        if (Object.keys(errors).length !== 0) {
+            return err(errors)
+        }
+
+        return ok(values)
+    }
+
+    /**
+     * Splits `Result`s into the values of the `ok`s and the errors of the `err`s.
+     *
+     * The values and errors of an array are collected in arrays, the ones of a record in records with the same keys.
+     *
+     * @example
+     * ```TypeScript
+     * const a = ok<number, string>(42)
+     * const b = err<number, string>("Something went wrong")
+     * const c = ok<number, string>(1337)
+     *
+     * Result.partition([a, b, c]) // [[42, 1337], ["Something went wrong"]]
+     * Result.partition({ a, b }) // [{ a: 42 }, { b: "Something went wrong" }]
+     * ```
+     */
+    public static partition<R extends Result<unknown, unknown>>(
+        results: Array<R>
+    ): [Array<ResultValue<R>>, Array<ResultError<R>>]
+    public static partition<R extends Record<string, Result<unknown, unknown>>>(
+        results: R
+    ): [{ [K in keyof R]?: ResultValue<R[K]> }, { [K in keyof R]?: ResultError<R[K]> }]
+    public static partition(
+        results: Array<Result<unknown, unknown>> | Record<string, Result<unknown, unknown>>
+    ): [unknown, unknown] {
+        if (Array.isArray(results)) {
+            const values = new Array<unknown>()
+            const errors = new Array<unknown>()
+
+            for (const result of results) {
+                if (result.isOk()) {
+                    values.push(result.value)
+                }
+                else {
+                    errors.push(result.error)
+                }
+            }
+
+            return [values, errors]
+        }
+
+        const values: Record<string, unknown> = {}
+        const errors: Record<string, unknown> = {}
+
+        for (const [key, result] of Object.entries(results)) {
+            if (result.isOk()) {
+                values[key] = result.value
+            }
+            else {
+                errors[key] = result.error
+            }
+        }
+
+        return [values, errors]
     }
 
     /**
-     * Checks if the result is `ok`.
+     * Calls `f` for every element of an array or every property of a record and collects the values of the returned `Result`s, stopping at the first `err`.
+     *
+     * This is the same as mapping with `f` and calling {@link Result.all} on the mapped `Result`s, without mapping the elements after the first `err`.
+     *
+     * @example
+     * ```TypeScript
+     * const parse = (s: string): Result<number, string> => ...
+     *
+     * Result.traverse(["1", "2"], parse) // ok([1, 2])
+     * Result.traverse(["1", "x", "2"], parse) // err("x is not a number"), "2" is not parsed
+     * Result.traverse({ width: "1", height: "2" }, parse) // ok({ width: 1, height: 2 })
+     * ```
+     */
+    public static traverse<I extends [unknown, ...Array<unknown>], R extends Result<unknown, unknown>>(
+        items: [...I],
+        f: (item: I[number], index: number) => R
+    ): Result<{ [K in keyof I]: ResultValue<R> }, ResultError<R>>
+    public static traverse<I, R extends Result<unknown, unknown>>(
+        items: Array<I>,
+        f: (item: I, index: number) => R
+    ): Result<Array<ResultValue<R>>, ResultError<R>>
+    public static traverse<I extends Record<string, unknown>, R extends Result<unknown, unknown>>(
+        items: I,
+        f: (item: I[keyof I], key: keyof I & string) => R
+    ): Result<{ [K in keyof I]: ResultValue<R> }, ResultError<R>>
+    public static traverse(
+        items: Array<unknown> | Record<string, unknown>,
+        f: (item: unknown, key: never) => Result<unknown, unknown>
+    ): Result<unknown, unknown> {
+        if (Array.isArray(items)) {
+            const values = new Array<unknown>()
+
+            for (const [index, item] of items.entries()) {
+                const result = f(item, index as never)
+                if (result.isErr()) {
+                    return result
+                }
+
+                values.push(result.value)
+            }
+
+            return ok(values)
+        }
+
+        const values: Record<string, unknown> = {}
+
+        for (const [key, item] of Object.entries(items)) {
+            const result = f(item, key as never)
+            if (result.isErr()) {
+                return result
+            }
+
+            values[key] = result.value
+        }
+
+        return ok(values)
+    }
+
+    /**
+     * Makes `this` result usable with `yield*` inside of {@link Result.gen} and {@link Future.gen}, like Rust's `?` operator.
+     *
+     * An `ok` returns its value without yielding, an `err` yields itself to the runner which stops the generator.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Result.gen(function* () {
+     *     const n = yield* parse("42").try()
+     *     return n * 2
+     * })
+     * ```
+     */
+    public *try(): Generator<Result<never, E>, T, unknown> {
+        if (!this._isOk) {
+            return (yield this as unknown as Result<never, E>) as T
+        }
+
+        return this._value as T
+    }
+
+    /**
+     * Makes `this` result usable with `for...of` and spreading, which yield the value once if the result is `ok` and nothing if it is `err`.
+     *
+     * @example
+     * ```TypeScript
+     * for (const x of ok<number, string>(42)) {
+     *     console.log(x) // 42
+     * }
+     *
+     * [...ok<number, string>(42), ...err<number, string>("Hello World")] // [42]
+     * ```
+     */
+    public *[Symbol.iterator](): Generator<T, void, undefined> {
+        if (this._isOk) {
+            yield this._value as T
+        }
+    }
+
+    /**
+     * Checks if the result is `ok`. Narrows `this` to {@link Ok}, so its `value` can be read without unwrapping.
      *
      * @example
      * ```TypeScript
@@ -60,14 +371,18 @@ export class Result<T, E> implements IntoFuture<T, E> {
      *
      * a.isOk() // true
      * b.isOk() // false
+     *
+     * if (a.isOk()) {
+     *     a.value // 42
+     * }
      * ```
      */
-    public isOk(): boolean {
+    public isOk(): this is Ok<T, E> {
         return this._isOk
     }
 
     /**
-     * Checks if the result is `err`.
+     * Checks if the result is `err`. Narrows `this` to {@link Err}, so its `error` can be read without unwrapping.
      *
      * @example
      * ```TypeScript
@@ -76,9 +391,13 @@ export class Result<T, E> implements IntoFuture<T, E> {
      *
      * a.isErr() // false
      * b.isErr() // true
+     *
+     * if (b.isErr()) {
+     *     b.error // "Hello World"
+     * }
      * ```
      */
-    public isErr(): boolean {
+    public isErr(): this is Err<T, E> {
         return !this._isOk
     }
 
@@ -129,6 +448,7 @@ export class Result<T, E> implements IntoFuture<T, E> {
     /**
      * Calls `f` if the result is `ok`, otherwise returns the `err` value of `this`.
      * Often used to chain fallible operations that may return `err`.
+     * The error type of the returned `Result` is the union of both error types.
      *
      * @example
      * ```TypeScript
@@ -138,14 +458,16 @@ export class Result<T, E> implements IntoFuture<T, E> {
      *
      * a.andThen(f) // ok(43)
      * b.andThen(f) // err("Hello World")
+     *
+     * a.andThen((x) => check(x)) // Result<number, string | RangeError>
      * ```
      */
-    public andThen<U>(f: (value: Readonly<T>) => Result<U, E>): Result<U, E> {
+    public andThen<U, F = E>(f: (value: Readonly<T>) => Result<U, F>): Result<U, E | F> {
         if (this._isOk) {
             return f(this._value as T)
         }
 
-        return this as unknown as Result<U, E>
+        return this as unknown as Result<U, E | F>
     }
 
     /**
@@ -300,6 +622,297 @@ export class Result<T, E> implements IntoFuture<T, E> {
         return err(f(this._value as E))
     }
 
+    /**
+     * Returns the contained `ok` value.
+     * Panics if the value is an `err`, with the given message followed by the `err` value.
+     *
+     * @example
+     * ```TypeScript
+     * const a: Result<number, string> = ok(42)
+     * const b: Result<number, string> = err("Hello World")
+     *
+     * a.expect("should be a number") // 42
+     * b.expect("should be a number") // panics with "should be a number: Hello World"
+     * ```
+     */
+    public expect(message: string): Readonly<T> {
+        if (this._isOk) {
+            return this._value as T
+        }
+
+        panic(`${message}: ${describe(this._value)}`)
+    }
+
+    /**
+     * Returns the contained `err` value.
+     * Panics if the value is an `ok`, with the given message followed by the `ok` value.
+     *
+     * @example
+     * ```TypeScript
+     * const a: Result<number, string> = ok(42)
+     * const b: Result<number, string> = err("Hello World")
+     *
+     * a.expectErr("should fail") // panics with "should fail: 42"
+     * b.expectErr("should fail") // "Hello World"
+     * ```
+     */
+    public expectErr(message: string): Readonly<E> {
+        if (this._isOk) {
+            panic(`${message}: ${describe(this._value)}`)
+        }
+
+        return this._value as E
+    }
+
+    /**
+     * Converts `this` result into an `Option` of its `ok` value, discarding the error.
+     *
+     * @example
+     * ```TypeScript
+     * ok<number, string>(42).ok() // some(42)
+     * err<number, string>("Hello World").ok() // none<number>()
+     * ```
+     */
+    public ok(): Option<T> {
+        if (this._isOk) {
+            return some(this._value as T)
+        }
+
+        return none()
+    }
+
+    /**
+     * Converts `this` result into an `Option` of its `err` value, discarding the success value.
+     *
+     * @example
+     * ```TypeScript
+     * ok<number, string>(42).err() // none<string>()
+     * err<number, string>("Hello World").err() // some("Hello World")
+     * ```
+     */
+    public err(): Option<E> {
+        if (this._isOk) {
+            return none()
+        }
+
+        return some(this._value as E)
+    }
+
+    /**
+     * Returns `undefined` if the result is `err`, otherwise the contained `ok` value.
+     *
+     * @example
+     * ```TypeScript
+     * ok<number, string>(42).unwrapOrUndefined() // 42
+     * err<number, string>("Hello World").unwrapOrUndefined() // undefined
+     * ```
+     */
+    public unwrapOrUndefined(): Readonly<T> | undefined {
+        if (this._isOk) {
+            return this._value as T
+        }
+
+        return undefined
+    }
+
+    /**
+     * Returns `null` if the result is `err`, otherwise the contained `ok` value.
+     *
+     * @example
+     * ```TypeScript
+     * ok<number, string>(42).unwrapOrNull() // 42
+     * err<number, string>("Hello World").unwrapOrNull() // null
+     * ```
+     */
+    public unwrapOrNull(): Readonly<T> | null {
+        if (this._isOk) {
+            return this._value as T
+        }
+
+        return null
+    }
+
+    /**
+     * Returns the provided default if the result is `err`, otherwise applies `f` to the contained `ok` value.
+     * Arguments passed to `mapOr` are eagerly evaluated; if you are passing the result of a function call, it is recommended to use `mapOrElse`, which is lazily evaluated.
+     *
+     * @example
+     * ```TypeScript
+     * ok<string, string>("foo").mapOr(42, x => x.length) // 3
+     * err<string, string>("bar").mapOr(42, x => x.length) // 42
+     * ```
+     */
+    public mapOr<U>(defaultValue: U, f: (value: Readonly<T>) => U): U {
+        if (this._isOk) {
+            return f(this._value as T)
+        }
+
+        return defaultValue
+    }
+
+    /**
+     * Applies `defaultFn` to the contained `err` value or `f` to the contained `ok` value.
+     *
+     * @example
+     * ```TypeScript
+     * ok<string, string>("foo").mapOrElse(e => e.length * 2, x => x.length) // 3
+     * err<string, string>("bar").mapOrElse(e => e.length * 2, x => x.length) // 6
+     * ```
+     */
+    public mapOrElse<U>(defaultFn: (error: Readonly<E>) => U, f: (value: Readonly<T>) => U): U {
+        if (this._isOk) {
+            return f(this._value as T)
+        }
+
+        return defaultFn(this._value as E)
+    }
+
+    /**
+     * Calls `f` with the contained `ok` value and returns `this` unchanged.
+     *
+     * @example
+     * ```TypeScript
+     * parse(input).inspect(x => console.log(`parsed ${x}`)).map(x => x * 2)
+     * ```
+     */
+    public inspect(f: (value: Readonly<T>) => void): Result<T, E> {
+        if (this._isOk) {
+            f(this._value as T)
+        }
+
+        return this as unknown as Result<T, E>
+    }
+
+    /**
+     * Calls `f` with the contained `err` value and returns `this` unchanged.
+     *
+     * @example
+     * ```TypeScript
+     * parse(input).inspectErr(e => console.error(`failed to parse: ${e}`))
+     * ```
+     */
+    public inspectErr(f: (error: Readonly<E>) => void): Result<T, E> {
+        if (!this._isOk) {
+            f(this._value as E)
+        }
+
+        return this as unknown as Result<T, E>
+    }
+
+    /**
+     * Returns `true` if the result is `ok` and the contained value matches `predicate`.
+     *
+     * @example
+     * ```TypeScript
+     * ok<number, string>(42).isOkAnd(x => x > 40) // true
+     * ok<number, string>(0).isOkAnd(x => x > 40) // false
+     * err<number, string>("Hello World").isOkAnd(x => x > 40) // false
+     * ```
+     */
+    public isOkAnd(predicate: (value: Readonly<T>) => boolean): boolean {
+        return this._isOk && predicate(this._value as T)
+    }
+
+    /**
+     * Returns `true` if the result is `err` and the contained error matches `predicate`.
+     *
+     * @example
+     * ```TypeScript
+     * err<number, string>("Hello World").isErrAnd(e => e.length > 5) // true
+     * err<number, string>("Hi").isErrAnd(e => e.length > 5) // false
+     * ok<number, string>(42).isErrAnd(e => e.length > 5) // false
+     * ```
+     */
+    public isErrAnd(predicate: (error: Readonly<E>) => boolean): boolean {
+        return !this._isOk && predicate(this._value as E)
+    }
+
+    /**
+     * Removes one level of nesting from a `Result<Result<T, E>, E>`.
+     *
+     * @example
+     * ```TypeScript
+     * ok(ok(42)).flatten() // ok(42)
+     * ok(err("Hello World")).flatten() // err("Hello World")
+     * err("Hello World").flatten() // err("Hello World")
+     * ```
+     */
+    public flatten<U, F>(this: Result<Result<U, F>, E>): Result<U, E | F> {
+        if (this.isOk()) {
+            return this.value as Result<U, F>
+        }
+
+        return this as unknown as Result<U, E | F>
+    }
+
+    /**
+     * Transposes a `Result` of an `Option` into an `Option` of a `Result`.
+     *
+     * `ok(none)` is mapped to `none`, `ok(some(v))` to `some(ok(v))` and `err(e)` to `some(err(e))`.
+     *
+     * @example
+     * ```TypeScript
+     * ok<Option<number>, string>(some(42)).transpose() // some(ok(42))
+     * ok<Option<number>, string>(none()).transpose() // none()
+     * err<Option<number>, string>("Hello World").transpose() // some(err("Hello World"))
+     * ```
+     */
+    public transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>> {
+        if (this.isErr()) {
+            return some(err(this.error as E))
+        }
+
+        const option = this.value as Option<U>
+        if (option.isSome()) {
+            return some(ok(option.value as U))
+        }
+
+        return none()
+    }
+
+    /**
+     * Returns an iterator over the contained `ok` value, which yields the value once if the result is `ok` and nothing if it is `err`, like iterating the result itself.
+     *
+     * @example
+     * ```TypeScript
+     * const a = ok<number, string>(42).iter()
+     *
+     * a.next() // { value: 42, done: false }
+     * a.next() // { value: undefined, done: true }
+     * ```
+     */
+    public iter(): Generator<T, void, undefined> {
+        return this[Symbol.iterator]()
+    }
+
+    /**
+     * Returns the contained `ok` value of a result that can't fail. Other than `unwrap` this never panics, because the compiler proves that `this` is `ok`.
+     *
+     * @example
+     * ```TypeScript
+     * const a: Result<number, never> = ok(42)
+     *
+     * a.intoOk() // 42
+     * ```
+     */
+    public intoOk(this: Result<T, never>): Readonly<T> {
+        return this.unwrap()
+    }
+
+    /**
+     * Returns the contained `err` value of a result that can't succeed. Other than `unwrapErr` this never panics, because the compiler proves that `this` is `err`.
+     *
+     * @example
+     * ```TypeScript
+     * const a: Result<never, string> = err("Hello World")
+     *
+     * a.intoErr() // "Hello World"
+     * ```
+     */
+    public intoErr(this: Result<never, E>): Readonly<E> {
+        return this.unwrapErr()
+    }
+
     /**
      * Runs one of the provided functions depending on the value of `this` result.
      * @param ok The function to run if the result is `ok`.
@@ -320,15 +933,86 @@ export class Result<T, E> implements IntoFuture<T, E> {
      *     x => x * 2,
      *     x => x.length
      * ) // 11
+     *
+     * b.match({
+     *     ok: x => x * 2,
+     *     err: x => x.length,
+     * }) // 11
      */
     public match<U>(
         ok: (value: Readonly<T>) => U,
         err: (error: Readonly<E>) => U
+    ): U
+    public match<U>(arms: ResultArms<T, E, U>): U
+    public match<U>(
+        ok: ((value: Readonly<T>) => U) | ResultArms<T, E, U>,
+        err?: (error: Readonly<E>) => U
     ): U {
-        return this._isOk ? ok(this._value as T) : err(this._value as E)
+        const arms = typeof ok === "function" ? { ok, err: err as (error: Readonly<E>) => U } : ok
+        return this._isOk ? arms.ok(this._value as T) : arms.err(this._value as E)
+    }
+}
+
+/**
+ * The `ok` variant of a {@link Result}, holding a successful `value`.
+ */
+export class Ok<T, E = never> extends ResultBase<T, E> {
+    protected declare readonly _isOk: true
+
+    constructor(value: T) {
+        super(value, true)
+    }
+
+    /**
+     * The contained `ok` value.
+     */
+    public get value(): Readonly<T> {
+        return this._value as T
     }
 }
 
+/**
+ * The `err` variant of a {@link Result}, holding an `error`.
+ */
+export class Err<T, E> extends ResultBase<T, E> {
+    protected declare readonly _isOk: false
+
+    constructor(error: E) {
+        super(error, false)
+    }
+
+    /**
+     * The contained `err` value.
+     */
+    public get error(): Readonly<E> {
+        return this._value as E
+    }
+}
+
+/**
+ * `Result<T, E>` is the type used for returning and propagating errors.
+ * Use `ok` to return a successful result and `err` to return an error.
+ *
+ * A `Result` is either an {@link Ok} or an {@link Err}, {@link Result.isOk} and {@link Result.isErr} narrow it to one of them.
+ *
+ * @example
+ * ```TypeScript
+ * const a: Result<number, string> = parse(input)
+ * if (a.isOk()) {
+ *     a.value // number
+ * }
+ * else {
+ *     a.error // string
+ * }
+ * ```
+ */
+export type Result<T, E> = Ok<T, E> | Err<T, E>
+
+/**
+ * Creates and runs `Result`s, `instanceof Result` checks for both variants.
+ */
+export const Result = ResultBase
+
 /**
  * Creates a new `Result` representing a successful result.
  *
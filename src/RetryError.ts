@@ -0,0 +1,22 @@
+/**
+ * The error {@link Future.retry} resolves to if no attempt succeeded.
+ *
+ * @example
+ * ```TypeScript
+ * const a = Future.retry(() => fetchUser(id), { maxAttempts: 3 })
+ *
+ * await a.match(() => [], (e) => e.errors) // the errors of all three attempts
+ * ```
+ */
+export class RetryError<E> extends Error {
+    /**
+     * The errors of all attempts, in the order they were made.
+     */
+    public readonly errors: ReadonlyArray<E>
+
+    constructor(errors: ReadonlyArray<E>) {
+        super(`Failed after ${errors.length} attempt${errors.length === 1 ? "" : "s"}`)
+        this.name = "RetryError"
+        this.errors = errors
+    }
+}
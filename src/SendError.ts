@@ -0,0 +1,29 @@
+/**
+ * The error sending on a channel fails with, holding the `value` that could not be sent.
+ *
+ * @example
+ * ```TypeScript
+ * const [tx, rx] = channel<number>()
+ * rx.close()
+ *
+ * await tx.send(42).match(() => undefined, (e) => e.value) // 42
+ * ```
+ */
+export class SendError<T> extends Error {
+    /**
+     * The value that was not sent.
+     */
+    public readonly value: T
+
+    /**
+     * Why the value was not sent: `"closed"` if no receiver can receive it anymore, `"full"` if {@link Sender.trySend} found the channel full.
+     */
+    public readonly kind: "closed" | "full"
+
+    constructor(value: T, kind: "closed" | "full" = "closed") {
+        super(kind === "closed" ? "Sending on a closed channel" : "Sending on a full channel")
+        this.name = "SendError"
+        this.value = value
+        this.kind = kind
+    }
+}
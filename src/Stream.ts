@@ -0,0 +1,879 @@
+import { panic } from "@frank-mayer/panic"
+import { Future, Interruption } from "./Future"
+import { capture, rejectionToError } from "./Interruption"
+import { IntoFuture } from "./IntoFuture"
+import { none, Option, some } from "./Option"
+import { err, ok, Result } from "./Result"
+
+/**
+ * The subset of a Node.js `EventEmitter` that {@link Stream.fromEmitter} and {@link Stream.emitTo} use.
+ */
+export interface EventEmitterLike {
+    on(event: string, listener: (...args: Array<unknown>) => void): unknown
+    off(event: string, listener: (...args: Array<unknown>) => void): unknown
+    emit(event: string, ...args: Array<unknown>): unknown
+}
+
+/**
+ * The names of the events {@link Stream.fromEmitter} listens to and {@link Stream.emitTo} emits.
+ */
+export interface EmitterEvents {
+    /**
+     * The event that carries a value. Defaults to `"data"`.
+     */
+    data?: string
+
+    /**
+     * The event that carries an error. Defaults to `"error"`.
+     */
+    error?: string
+
+    /**
+     * The event that signals that there are no more values. Defaults to `"end"`.
+     */
+    end?: string
+}
+
+const positiveInteger = (name: string, value: number) => {
+    if (!Number.isInteger(value) || value < 1) {
+        panic(`${name} must be a positive integer, got ${value}`)
+    }
+}
+
+/**
+ * `Stream<T, E>` is an asynchronous sequence of {@link Result}s, like a {@link Future} that produces more than one value.
+ *
+ * A `Stream` is an `AsyncIterable<Result<T, E>>`, so it works with `for await...of`. An `err` is an item like any other and does not end the `Stream`.
+ * Combinators like {@link Stream.map} are lazy and only pull items when the returned `Stream` is iterated. Terminal operations like {@link Stream.collect} run the `Stream` and return a `Future`, which stops at the first `err`.
+ *
+ * @example
+ * ```TypeScript
+ * const pages = Stream.from(fetchPages(url)) // Stream<Page, Error>
+ *
+ * const titles = await pages
+ *     .map((page) => page.title)
+ *     .take(10)
+ *     .collect() // Result<Array<string>, Error>
+ * ```
+ */
+export class Stream<T, E> implements AsyncIterable<Result<T, E>> {
+    /** @internal */
+    private readonly source: AsyncIterable<Result<T, E>>
+
+    /**
+     * Creates a new `Stream` from an async iterable of `Result`s, like an async generator.
+     *
+     * @example
+     * ```TypeScript
+     * const a = new Stream((async function* () {
+     *     yield ok<number, string>(1)
+     *     yield err<number, string>("Something went wrong")
+     * })())
+     * ```
+     */
+    constructor(source: AsyncIterable<Result<T, E>>) {
+        this.source = source
+    }
+
+    /**
+     * Creates a new `Stream` from the values of an async or sync iterable, like an async generator or an array.
+     *
+     * If the iterable throws, the `Stream` ends with an `err`. The thrown value is mapped with `mapError` or, without it, like in {@link Future.from}.
+     *
+     * @example
+     * ```TypeScript
+     * async function* fetchPages(url: string) { ... }
+     *
+     * const a = Stream.from(fetchPages(url)) // Stream<Page, Error>
+     * const b = Stream.from(fetchPages(url), (reason) => new HttpError(reason)) // Stream<Page, HttpError>
+     * const c = Stream.from([1, 2, 3])
+     * ```
+     */
+    public static from<T, E extends Error = Error>(iterable: AsyncIterable<T> | Iterable<T>): Stream<T, E>
+    public static from<T, E>(iterable: AsyncIterable<T> | Iterable<T>, mapError: (reason: unknown) => E): Stream<T, E>
+    public static from<T, E>(iterable: AsyncIterable<T> | Iterable<T>, mapError?: (reason: unknown) => E): Stream<T, E> {
+        const toError = mapError ?? ((reason: unknown) => rejectionToError(reason) as E)
+
+        return new Stream({
+            [Symbol.asyncIterator]: async function* () {
+                const iterator = (async function* () {
+                    yield* iterable
+                })()
+
+                try {
+                    for (;;) {
+                        let step: IteratorResult<T>
+                        try {
+                            step = await iterator.next()
+                        }
+                        catch (reason) {
+                            yield err<T, E>(toError(reason))
+                            return
+                        }
+
+                        if (step.done) {
+                            return
+                        }
+
+                        yield ok<T, E>(step.value)
+                    }
+                }
+                finally {
+                    await iterator.return(undefined)
+                }
+            },
+        })
+    }
+
+    /**
+     * Creates a new `Stream` from the chunks of a `ReadableStream`, like the body of a `fetch` response.
+     *
+     * Errors of the `ReadableStream` end the `Stream` with an `err`, mapped like in {@link Stream.from}. The `ReadableStream` is cancelled if the `Stream` is not read to the end.
+     *
+     * @example
+     * ```TypeScript
+     * const response = await fetch(url)
+     * const a = Stream.fromReadable(response.body) // Stream<Uint8Array, Error>
+     * ```
+     */
+    public static fromReadable<T, E extends Error = Error>(readable: ReadableStream<T>): Stream<T, E>
+    public static fromReadable<T, E>(readable: ReadableStream<T>, mapError: (reason: unknown) => E): Stream<T, E>
+    public static fromReadable<T, E>(readable: ReadableStream<T>, mapError?: (reason: unknown) => E): Stream<T, E> {
+        const iterable: AsyncIterable<T> = {
+            [Symbol.asyncIterator]: () => {
+                const reader = readable.getReader()
+                return {
+                    next: () => reader.read() as Promise<IteratorResult<T>>,
+                    return: async () => {
+                        await reader.cancel()
+                        return { done: true, value: undefined }
+                    },
+                }
+            },
+        }
+
+        return mapError ? Stream.from(iterable, mapError) : Stream.from(iterable) as Stream<T, E>
+    }
+
+    /**
+     * Creates a new `Stream` from the events of an event emitter, like a Node.js `Readable` or a WebSocket client.
+     *
+     * Every `data` event becomes an `ok` holding the first argument of the event. An `error` event becomes an `err` and ends the `Stream`, like an `end` event does.
+     * The `Stream` starts listening when it gets iterated, so earlier events are missed, and buffers events that arrive faster than they are read.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.fromEmitter<Buffer, Error>(fs.createReadStream(path))
+     * const b = Stream.fromEmitter<string, Error>(socket, { data: "message", end: "close" })
+     * ```
+     */
+    public static fromEmitter<T, E = Error>(
+        emitter: Pick<EventEmitterLike, "on" | "off">,
+        events: EmitterEvents = {}
+    ): Stream<T, E> {
+        const { data = "data", error = "error", end = "end" } = events
+
+        return new Stream({
+            [Symbol.asyncIterator]: () => {
+                const queue = new Array<Result<T, E>>()
+                let listening = false
+                let ended = false
+                let waiting = new Array<() => void>()
+
+                const wake = () => {
+                    const woken = waiting
+                    waiting = []
+                    for (const resolve of woken) {
+                        resolve()
+                    }
+                }
+                const onData = (value: unknown) => {
+                    queue.push(ok(value as T))
+                    wake()
+                }
+                const onError = (reason: unknown) => {
+                    queue.push(err(reason as E))
+                    ended = true
+                    wake()
+                }
+                const onEnd = () => {
+                    ended = true
+                    wake()
+                }
+                const stop = () => {
+                    ended = true
+                    if (listening) {
+                        listening = false
+                        emitter.off(data, onData)
+                        emitter.off(error, onError)
+                        emitter.off(end, onEnd)
+                    }
+                    wake()
+                }
+
+                // a hand-written iterator, because an async generator waiting for an event would only get to a `return` after the next event
+                return {
+                    next: async (): Promise<IteratorResult<Result<T, E>>> => {
+                        if (!listening && !ended) {
+                            listening = true
+                            emitter.on(data, onData)
+                            emitter.on(error, onError)
+                            emitter.on(end, onEnd)
+                        }
+
+                        for (;;) {
+                            const item = queue.shift()
+                            if (item) {
+                                return { done: false, value: item }
+                            }
+
+                            if (ended) {
+                                stop()
+                                return { done: true, value: undefined }
+                            }
+
+                            await new Promise<void>((resolve) => {
+                                waiting.push(resolve)
+                            })
+                        }
+                    },
+                    return: async (): Promise<IteratorResult<Result<T, E>>> => {
+                        queue.length = 0
+                        stop()
+                        return { done: true, value: undefined }
+                    },
+                }
+            },
+        })
+    }
+
+    public [Symbol.asyncIterator](): AsyncIterator<Result<T, E>> {
+        return this.source[Symbol.asyncIterator]()
+    }
+
+    /**
+     * Creates a `Stream` whose items are produced by `adapter` from the items of `this` one.
+     *
+     * Adapters iterate their source by hand and close it in a `finally` block instead of using `for await...of`,
+     * because the `for await...of` TypeScript emits for ES6 does not close the source when the loop is left early.
+     * Closing the returned `Stream` closes the source right away as well, because an adapter waiting for an item only gets to its `finally` block after that item.
+     * @internal
+     */
+    private pipe<U, F>(adapter: (source: AsyncIterable<Result<T, E>>) => AsyncIterator<Result<U, F>>): Stream<U, F> {
+        return new Stream({
+            [Symbol.asyncIterator]: () => {
+                let iterator: AsyncIterator<Result<T, E>> | undefined
+                const piped = adapter({
+                    [Symbol.asyncIterator]: () => {
+                        iterator ??= this[Symbol.asyncIterator]()
+                        return iterator
+                    },
+                })
+
+                return {
+                    next: () => piped.next(),
+                    return: async (): Promise<IteratorResult<Result<U, F>>> => {
+                        const [result] = await Promise.all([piped.return?.(), iterator?.return?.()])
+                        return result ?? { done: true, value: undefined }
+                    },
+                }
+            },
+        })
+    }
+
+    /**
+     * Maps the value of every `ok`, leaving `err`s untouched.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.from([1, 2, 3]).map((value) => value * 2) // 2, 4, 6
+     * ```
+     */
+    public map<U>(f: (value: T) => U): Stream<U, E> {
+        return this.pipe(async function* (source) {
+            const iterator = source[Symbol.asyncIterator]()
+            try {
+                for (let step = await iterator.next(); !step.done; step = await iterator.next()) {
+                    yield step.value.map(f)
+                }
+            }
+            finally {
+                await iterator.return?.()
+            }
+        })
+    }
+
+    /**
+     * Chains an asynchronous computation onto the value of every `ok`, like {@link Future.andThen}.
+     * The computations run one after another, use {@link Stream.mapConcurrent} to run them at the same time.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.from(userIds).andThen((id) => fetchUser(id)) // Stream<User, Error | Interruption>
+     * ```
+     */
+    public andThen<U>(f: (value: T) => Future<U, E> | IntoFuture<U, E | Interruption>): Stream<U, E | Interruption> {
+        return this.mapConcurrent(1, f)
+    }
+
+    /**
+     * Skips the `ok`s for which `predicate` returns `false`. `err`s are always kept. A type guard narrows the type of the values.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.from([1, 2, 3, 4]).filter((value) => value % 2 === 0) // 2, 4
+     * ```
+     */
+    public filter<U extends T>(predicate: (value: T) => value is U): Stream<U, E>
+    public filter(predicate: (value: T) => boolean): Stream<T, E>
+    public filter(predicate: (value: T) => boolean): Stream<T, E> {
+        return this.pipe(async function* (source) {
+            const iterator = source[Symbol.asyncIterator]()
+            try {
+                for (let step = await iterator.next(); !step.done; step = await iterator.next()) {
+                    if (step.value.isErr() || predicate(step.value.value as T)) {
+                        yield step.value
+                    }
+                }
+            }
+            finally {
+                await iterator.return?.()
+            }
+        })
+    }
+
+    /**
+     * Ends after the first `n` items, `ok` or `err`. The source is not read any further.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.from(fetchPages(url)).take(3) // fetches no more than 3 pages
+     * ```
+     */
+    public take(n: number): Stream<T, E> {
+        return this.pipe(async function* (source) {
+            if (n <= 0) {
+                return
+            }
+
+            const iterator = source[Symbol.asyncIterator]()
+            try {
+                for (let taken = 0; taken < n; taken++) {
+                    const step = await iterator.next()
+                    if (step.done) {
+                        return
+                    }
+
+                    yield step.value
+                }
+            }
+            finally {
+                await iterator.return?.()
+            }
+        })
+    }
+
+    /**
+     * Reads up to `size` items ahead of the consumer, so that a slow source and a slow consumer can work at the same time.
+     *
+     * Panics if `size` is not a positive integer.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.from(fetchPages(url)).buffer(2) // fetches the next 2 pages while the current one is processed
+     * ```
+     */
+    public buffer(size: number): Stream<T, E> {
+        positiveInteger("Buffer size", size)
+
+        return this.pipe(async function* (source) {
+            // an async generator handles calls to next that overlap one after another, whatever the source does
+            const iterator = (async function* () {
+                yield* source
+            })()
+            const ahead = new Array<Promise<IteratorResult<Result<T, E>>>>()
+
+            try {
+                for (;;) {
+                    while (ahead.length <= size) {
+                        ahead.push(iterator.next())
+                    }
+
+                    const step = await (ahead.shift() as Promise<IteratorResult<Result<T, E>>>)
+                    if (step.done) {
+                        return
+                    }
+
+                    yield step.value
+                }
+            }
+            finally {
+                void iterator.return(undefined)
+            }
+        })
+    }
+
+    /**
+     * Runs an asynchronous computation for the value of every `ok`, with up to `limit` computations at the same time.
+     * The results keep the order of the source. Computations that are still running when the `Stream` is not read to the end get cancelled.
+     * A computation that gets cancelled by someone else becomes an `err` holding its {@link Cancelled}.
+     *
+     * Panics if `limit` is not a positive integer.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.from(userIds).mapConcurrent(4, (id) => fetchUser(id)) // fetches up to 4 users at once
+     * ```
+     */
+    public mapConcurrent<U>(
+        limit: number,
+        f: (value: T) => Future<U, E> | IntoFuture<U, E | Interruption>
+    ): Stream<U, E | Interruption> {
+        positiveInteger("Concurrency limit", limit)
+
+        return this.pipe(async function* (source) {
+            const iterator = source[Symbol.asyncIterator]()
+            const running = new Array<Future<U, E>>()
+            let done = false
+
+            try {
+                for (;;) {
+                    while (!done && running.length < limit) {
+                        const step = await iterator.next()
+                        if (step.done) {
+                            done = true
+                        }
+                        else if (step.value.isOk()) {
+                            const other = f(step.value.value as T)
+                            running.push(other instanceof Future ? other : new Future(other.futureExecutor))
+                        }
+                        else {
+                            running.push(Future.err(step.value.error as E))
+                        }
+                    }
+
+                    const head = running.shift()
+                    if (!head) {
+                        return
+                    }
+
+                    yield await head
+                }
+            }
+            finally {
+                for (const future of running) {
+                    future.cancel()
+                }
+
+                if (!done) {
+                    await iterator.return?.()
+                }
+            }
+        })
+    }
+
+    /**
+     * Interleaves the items of `this` `Stream` and `other` in the order they arrive. Ends when both ended.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.fromEmitter<Message, Error>(primary).merge(Stream.fromEmitter<Message, Error>(fallback))
+     * ```
+     */
+    public merge<U, F>(other: AsyncIterable<Result<U, F>>): Stream<T | U, E | F> {
+        return this.pipe(async function* (source) {
+            const iterators: Array<AsyncIterator<Result<T | U, E | F>>> = [
+                source[Symbol.asyncIterator](),
+                other[Symbol.asyncIterator](),
+            ]
+            const pending = new Map<number, Promise<[number, IteratorResult<Result<T | U, E | F>>]>>()
+            const pull = (index: number) => {
+                const iterator = iterators[index] as AsyncIterator<Result<T | U, E | F>>
+                pending.set(index, iterator.next().then((step) => [index, step]))
+            }
+
+            pull(0)
+            pull(1)
+
+            try {
+                while (pending.size !== 0) {
+                    const [index, step] = await Promise.race(pending.values())
+                    if (step.done) {
+                        pending.delete(index)
+                    }
+                    else {
+                        pull(index)
+                        yield step.value
+                    }
+                }
+            }
+            finally {
+                for (const index of pending.keys()) {
+                    void iterators[index]?.return?.()
+                }
+            }
+        })
+    }
+
+    /**
+     * Pairs the values of `this` `Stream` with the values of `other`. If one of the two items is an `err`, it is passed on instead of the pair.
+     * Ends when one of the `Stream`s ends.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.from(users).zip(Stream.from(settings)) // Stream<[User, Settings], Error>
+     * ```
+     */
+    public zip<U, F>(other: AsyncIterable<Result<U, F>>): Stream<[T, U], E | F> {
+        return this.pipe(async function* (source) {
+            const left = source[Symbol.asyncIterator]()
+            const right = other[Symbol.asyncIterator]()
+
+            try {
+                for (;;) {
+                    const [a, b] = await Promise.all([left.next(), right.next()])
+                    if (a.done || b.done) {
+                        return
+                    }
+
+                    if (a.value.isErr()) {
+                        yield err<[T, U], E | F>(a.value.error as E)
+                    }
+                    else if (b.value.isErr()) {
+                        yield err<[T, U], E | F>(b.value.error as F)
+                    }
+                    else {
+                        yield ok<[T, U], E | F>([a.value.value as T, b.value.value as U])
+                    }
+                }
+            }
+            finally {
+                await Promise.all([left.return?.(), right.return?.()])
+            }
+        })
+    }
+
+    /**
+     * Delays items so that at least `ms` milliseconds pass between two of them. No item is dropped.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.from(urls).throttle(1000).andThen((url) => fetchPage(url)) // fetches no more than a page per second
+     * ```
+     */
+    public throttle(ms: number): Stream<T, E> {
+        return this.pipe(async function* (source) {
+            const iterator = source[Symbol.asyncIterator]()
+            let last = -Infinity
+            try {
+                for (let step = await iterator.next(); !step.done; step = await iterator.next()) {
+                    const wait = last + ms - Date.now()
+                    if (wait > 0) {
+                        await Future.sleep(wait)
+                    }
+
+                    last = Date.now()
+                    yield step.value
+                }
+            }
+            finally {
+                await iterator.return?.()
+            }
+        })
+    }
+
+    /**
+     * Groups the values into arrays of up to `size` values. A group is passed on when it is full or `ms` milliseconds after its first value arrived, whatever comes first.
+     * An `err` is passed on as it is, after the values that arrived before it.
+     *
+     * Panics if `size` is not a positive integer.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.fromEmitter<LogEntry, Error>(logger, { data: "log" })
+     *     .chunksTimeout(100, 1000)
+     *     .andThen((entries) => upload(entries)) // uploads 100 entries at once, but waits no longer than a second
+     * ```
+     */
+    public chunksTimeout(size: number, ms: number): Stream<Array<T>, E> {
+        positiveInteger("Chunk size", size)
+
+        return this.pipe(async function* (source) {
+            const iterator = source[Symbol.asyncIterator]()
+            let pending: Promise<IteratorResult<Result<T, E>>> | undefined
+            let chunk = new Array<T>()
+            let deadline = 0
+
+            try {
+                for (;;) {
+                    const next = pending ?? iterator.next()
+                    pending = next
+
+                    let step: IteratorResult<Result<T, E>>
+                    if (chunk.length === 0) {
+                        step = await next
+                    }
+                    else {
+                        const timer = Future.sleep(deadline - Date.now())
+                        const first = await Promise.race([next, timer.then(() => undefined)])
+                        timer.cancel()
+                        if (first === undefined) {
+                            yield ok<Array<T>, E>(chunk)
+                            chunk = new Array<T>()
+                            continue
+                        }
+
+                        step = first
+                    }
+
+                    pending = undefined
+                    if (step.done) {
+                        if (chunk.length !== 0) {
+                            yield ok<Array<T>, E>(chunk)
+                        }
+                        return
+                    }
+
+                    const result = step.value
+                    if (result.isErr()) {
+                        if (chunk.length !== 0) {
+                            yield ok<Array<T>, E>(chunk)
+                            chunk = new Array<T>()
+                        }
+                        yield err<Array<T>, E>(result.error as E)
+                        continue
+                    }
+
+                    if (chunk.length === 0) {
+                        deadline = Date.now() + ms
+                    }
+
+                    chunk.push(result.value as T)
+                    if (chunk.length === size) {
+                        yield ok<Array<T>, E>(chunk)
+                        chunk = new Array<T>()
+                    }
+                }
+            }
+            finally {
+                void iterator.return?.()
+            }
+        })
+    }
+
+    /**
+     * Runs `this` `Stream` and reduces its values to one by repeatedly calling `f` with the result so far and the next value, starting with `init`.
+     * `f` may return a `Promise`, which is awaited before the next value is read.
+     *
+     * Stops at the first `err` and resolves to it. Cancelling the returned `Future` stops reading the `Stream`.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.from([1, 2, 3]).fold(0, (sum, value) => sum + value)
+     *
+     * (await a).unwrap() // 6
+     * ```
+     */
+    public fold<A>(init: A, f: (accumulator: A, value: T) => A | PromiseLike<A>): Future<A, E> {
+        const iterator = this[Symbol.asyncIterator]()
+        return Stream.run(iterator, (isCancelled) => Stream.foldItems(iterator, init, f, isCancelled))
+    }
+
+    /**
+     * Runs `body` like {@link Future.gen}. Cancelling the returned `Future` makes `isCancelled` return `true` and closes `iterator`,
+     * so that `body` stops even if it waits for an item that never comes.
+     * @internal
+     */
+    private static run<R, A, F>(
+        iterator: AsyncIterator<R>,
+        body: (isCancelled: () => boolean) => AsyncGenerator<Result<never, F>, A, unknown>
+    ): Future<A, F> {
+        let cancelled = false
+        const future = Future.gen(() => body(() => cancelled))
+
+        return new Future((ok, err, onCancel) => {
+            onCancel(() => {
+                cancelled = true
+                future.cancel()
+                void iterator.return?.()
+            })
+            future.futureExecutor(ok, err)
+        })
+    }
+
+    /** @internal */
+    private static async *foldItems<T, E, A>(
+        iterator: AsyncIterator<Result<T, E>>,
+        init: A,
+        f: (accumulator: A, value: T) => A | PromiseLike<A>,
+        isCancelled: () => boolean
+    ): AsyncGenerator<Result<never, E>, A, unknown> {
+        let accumulator = init
+        try {
+            for (let step = await iterator.next(); !step.done && !isCancelled(); step = await iterator.next()) {
+                accumulator = await f(accumulator, yield* step.value.try())
+            }
+        }
+        finally {
+            await iterator.return?.()
+        }
+
+        return accumulator
+    }
+
+    /**
+     * Runs `this` `Stream` and collects its values into an array. Stops at the first `err` and resolves to it.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.from(fetchPages(url)).collect()
+     *
+     * (await a).unwrap() // Array<Page>
+     * ```
+     */
+    public collect(): Future<Array<T>, E> {
+        return this.fold(new Array<T>(), (values, value) => {
+            values.push(value)
+            return values
+        })
+    }
+
+    /**
+     * Runs `this` `Stream` and calls `f` with every value. If `f` returns a `Promise`, it is awaited before the next value is read.
+     * Stops at the first `err` and resolves to it.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.fromEmitter<Message, Error>(socket).forEach((message) => console.log(message))
+     *
+     * a.cancel() // stops listening
+     * ```
+     */
+    public forEach(f: (value: T) => void | PromiseLike<void>): Future<void, E> {
+        return this.fold<void>(undefined, (_, value) => f(value))
+    }
+
+    /**
+     * Reads the first item of `this` `Stream` and stops reading. Resolves to `none` if the `Stream` is empty.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.fromEmitter<Message, Error>(socket).first()
+     *
+     * (await a).unwrap() // some(message) for the first message
+     * ```
+     */
+    public first(): Future<Option<T>, E> {
+        return this.take(1).fold(none<T>(), (_, value) => some(value))
+    }
+
+    /**
+     * Converts `this` `Stream` into an async generator of its values, which throws the error of the first `err`.
+     *
+     * @example
+     * ```TypeScript
+     * for await (const page of Stream.from(fetchPages(url)).toAsyncGenerator()) {
+     *     render(page)
+     * }
+     * ```
+     */
+    public async *toAsyncGenerator(): AsyncGenerator<T, void, undefined> {
+        const iterator = this[Symbol.asyncIterator]()
+        try {
+            for (let step = await iterator.next(); !step.done; step = await iterator.next()) {
+                if (step.value.isErr()) {
+                    throw step.value.error
+                }
+
+                yield step.value.value as T
+            }
+        }
+        finally {
+            await iterator.return?.()
+        }
+    }
+
+    /**
+     * Converts `this` `Stream` into a `ReadableStream` of its values, which errors with the error of the first `err`.
+     * Items are read from `this` `Stream` when the `ReadableStream` pulls them.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Stream.from(renderChunks()).map((chunk) => encoder.encode(chunk))
+     *
+     * new Response(a.toReadable())
+     * ```
+     */
+    public toReadable(): ReadableStream<T> {
+        const iterator = this[Symbol.asyncIterator]()
+
+        return new ReadableStream<T>({
+            pull: async (controller) => {
+                const step = await iterator.next()
+                if (step.done) {
+                    controller.close()
+                }
+                else if (step.value.isErr()) {
+                    controller.error(step.value.error)
+                    await iterator.return?.()
+                }
+                else {
+                    controller.enqueue(step.value.value as T)
+                }
+            },
+            cancel: async () => {
+                await iterator.return?.()
+            },
+        })
+    }
+
+    /**
+     * Runs `this` `Stream` and emits its items on `emitter`: a `data` event for every `ok`, an `error` event for every `err` and an `end` event after the last item.
+     * The returned `Future` resolves after the `end` event. Cancelling it stops reading the `Stream`, without an `end` event.
+     *
+     * Note that a Node.js `EventEmitter` throws if an `error` event has no listener.
+     *
+     * @example
+     * ```TypeScript
+     * const emitter = new EventEmitter()
+     * emitter.on("data", (message) => socket.send(message))
+     *
+     * Stream.from(messages).emitTo(emitter)
+     * ```
+     */
+    public emitTo(emitter: Pick<EventEmitterLike, "emit">, events: EmitterEvents = {}): Future<void, never> {
+        const { data = "data", error = "error", end = "end" } = events
+
+        return new Future((ok, err, onCancel) => {
+            let cancelled = false
+            const iterator = this[Symbol.asyncIterator]()
+            onCancel(() => {
+                cancelled = true
+                void iterator.return?.()
+            })
+
+            const emitItems = async () => {
+                try {
+                    for (let step = await iterator.next(); !step.done && !cancelled; step = await iterator.next()) {
+                        if (step.value.isOk()) {
+                            emitter.emit(data, step.value.value)
+                        }
+                        else {
+                            emitter.emit(error, step.value.error)
+                        }
+                    }
+                }
+                finally {
+                    await iterator.return?.()
+                }
+
+                if (!cancelled) {
+                    emitter.emit(end)
+                    ok()
+                }
+            }
+
+            emitItems().catch((thrown: unknown) => err(capture(thrown)))
+        })
+    }
+}
@@ -0,0 +1,179 @@
+import { Future, FutureExecutor, FutureOptions, Interruption } from "./Future"
+import { IntoFuture } from "./IntoFuture"
+import { Result } from "./Result"
+
+/**
+ * `Task<T, E>` describes an asynchronous operation without starting it.
+ *
+ * Other than a {@link Future}, which runs as soon as it is created, the executor of a `Task` runs each time the `Task` is {@link Task.run run} or awaited.
+ * This makes it possible to define work up front and run it later, more than once or again after it failed (like {@link Future.retry} does).
+ *
+ * @example
+ * ```TypeScript
+ * const a = new Task<number, string>((ok) => {
+ *     console.log("running")
+ *     ok(42)
+ * }) // nothing is logged yet
+ *
+ * await a // logs "running"
+ * await a // logs "running" again
+ * ```
+ */
+export class Task<T, E> implements IntoFuture<T, E | Interruption>, PromiseLike<Result<T, E | Interruption>> {
+    /** @internal */
+    private readonly executor: FutureExecutor<T, E>
+
+    /**
+     * Creates a new `Task` from an executor, which gets the same arguments as the executor of a {@link Future}.
+     *
+     * @example
+     * ```TypeScript
+     * const a = new Task<number, Cancelled>((ok, err, onCancel) => {
+     *     const id = setTimeout(() => ok(42), 1000)
+     *     onCancel(() => clearTimeout(id))
+     * })
+     * ```
+     */
+    constructor(executor: FutureExecutor<T, E>) {
+        this.executor = executor
+    }
+
+    /**
+     * Runs `this` `Task` and converts it into the resulting `Future`, which makes a `Task` usable wherever an {@link IntoFuture} is accepted.
+     * Used as the executor of a `Future`, cancelling that `Future` cancels the run.
+     */
+    public get futureExecutor() {
+        return (
+            resolveOk: (value: T) => void,
+            resolveErr: (reason: E | Interruption) => void,
+            onCancel?: (handler: () => void) => void
+        ) => {
+            const future = this.run()
+            onCancel?.(() => future.cancel())
+            future.futureExecutor(resolveOk, resolveErr)
+        }
+    }
+
+    /**
+     * Creates a new `Task` that calls `factory` each time it runs. Cancelling a run cancels the `Future` returned by `factory`.
+     *
+     * If an existing `Future` or another {@link IntoFuture} is passed, every run resolves to its outcome. A `Future` has already started, so its work is not repeated.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Task.from(() => Future.from(fetch(url)))
+     * const b = Task.from(Result.ok(42))
+     * ```
+     */
+    public static from<T, E>(
+        source: (() => Future<T, E> | IntoFuture<T, E | Interruption>) | IntoFuture<T, E | Interruption>
+    ): Task<T, E> {
+        return new Task((ok, err, onCancel) => {
+            const other = typeof source === "function" ? source() : source
+            const future = other instanceof Future ? other : new Future(other.futureExecutor)
+            onCancel(() => future.cancel())
+            future.futureExecutor(ok, err)
+        })
+    }
+
+    /**
+     * Creates a new `Task` that succeeds with `value`.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Task.ok(42)
+     * ```
+     */
+    public static ok<T, E = Error>(value: T): Task<T, E> {
+        return new Task((ok) => {
+            ok(value)
+        })
+    }
+
+    /**
+     * Creates a new `Task` that fails with `reason`.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Task.err<number, string>("Something went wrong")
+     * ```
+     */
+    public static err<T, E = Error>(reason: E): Task<T, E> {
+        return new Task((_, err) => {
+            err(reason)
+        })
+    }
+
+    /**
+     * Starts a new run of `this` `Task`.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Task.from(() => Future.do(() => heavyComputation()))
+     * const b = a.run() // starts the first computation
+     * const c = a.run() // starts the second computation
+     *
+     * b.cancel() // only terminates the first computation
+     * ```
+     */
+    public run(options: FutureOptions = {}): Future<T, E> {
+        return new Future(this.executor, options)
+    }
+
+    /**
+     * Runs `this` `Task`, which makes it possible to `await` it.
+     */
+    public then<TResult1 = Result<T, E | Interruption>, TResult2 = never>(
+        onfulfilled?: ((value: Result<T, E | Interruption>) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return this.run().then(onfulfilled, onrejected)
+    }
+
+    /**
+     * Chains a computation that runs after `this` `Task` succeeded, like {@link Future.andThen}.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Task.from(() => fetchUser(id))
+     * const b = a.andThen((user) => Task.from(() => fetchPosts(user))) // nothing is fetched yet
+     * ```
+     */
+    public andThen<U, F = E>(fn: (value: T) => Task<U, F> | Future<U, F> | IntoFuture<U, F | Interruption>): Task<U, E | F> {
+        return Task.from(() => this.run().andThen((value) => {
+            const other = fn(value)
+            return other instanceof Task ? other.run() : other
+        }))
+    }
+
+    /**
+     * Chains a computation that runs after `this` `Task` failed, like {@link Future.orElse}.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Task.from(() => fetchFromCache(id))
+     * const b = a.orElse(() => Task.from(() => fetchFromServer(id)))
+     * ```
+     */
+    public orElse<U, F = E>(fn: (err: E) => Task<U, F> | Future<U, F> | IntoFuture<U, F | Interruption>): Task<T | U, F> {
+        return Task.from(() => this.run().orElse((err) => {
+            const other = fn(err)
+            return other instanceof Task ? other.run() : other
+        }))
+    }
+
+    /**
+     * Maps the value of `this` `Task`, like {@link Future.map}.
+     *
+     * @example
+     * ```TypeScript
+     * const a = Task.ok(42)
+     * const b = a.map((value) => value + 1)
+     *
+     * (await b).unwrap() // 43
+     * ```
+     */
+    public map<U>(f: (value: T) => U): Task<U, E> {
+        return Task.from(() => this.run().map(f))
+    }
+}
@@ -0,0 +1,22 @@
+/**
+ * The error a {@link Future} resolves to if it did not settle in time.
+ *
+ * @example
+ * ```TypeScript
+ * const a = Future.sleep(1000).timeout(10)
+ *
+ * (await a).unwrapErr() // TimeoutError
+ * ```
+ */
+export class TimeoutError extends Error {
+    /**
+     * The number of milliseconds the `Future` was given.
+     */
+    public readonly ms: number
+
+    constructor(ms: number) {
+        super(`Future timed out after ${ms}ms`)
+        this.name = "TimeoutError"
+        this.ms = ms
+    }
+}
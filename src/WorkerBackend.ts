@@ -0,0 +1,169 @@
+import type { TransferListItem, Worker as NodeWorker } from "worker_threads"
+import { serializeSource } from "./RemoteError"
+
+/**
+ * A worker thread of the runtime `Future.do` is running in.
+ * @internal
+ */
+export interface WorkerHandle {
+    /**
+     * Sends a message to the worker, transferring the objects in `transfer` instead of copying them.
+     */
+    postMessage(message: unknown, transfer: Array<Transferable>): void
+
+    /**
+     * Stops the worker immediately.
+     */
+    terminate(): void
+}
+
+/**
+ * Receives the events of a {@link WorkerHandle}.
+ * @internal
+ */
+export interface WorkerListeners {
+    /**
+     * Called with every message the worker posts.
+     */
+    message(data: unknown): void
+
+    /**
+     * Called if the worker crashed or a message could not be deserialized.
+     */
+    error(error: unknown): void
+}
+
+/**
+ * Checks if the code is running in Node.js, where `worker_threads` has to be used instead of Web Workers.
+ * @internal
+ */
+export const isNode = () =>
+    typeof process === "object" &&
+    typeof process.versions === "object" &&
+    typeof process.versions.node === "string"
+
+/**
+ * Builds the source of a worker that runs `main` for each job it receives and posts back the result tagged with the id of the job.
+ * Thrown values are posted serialized, so they can be rebuilt with `remotePanic`.
+ * `port` abstracts the messaging API of the runtime.
+ */
+const workerSource = (port: string, main: string) => [
+    port,
+    serializeSource,
+    `const main = (${main});`,
+    "port.listen(async (job) => {",
+    "try {",
+    "port.post({id: job.id, isOk: true, value: await main(...job.args)});",
+    "} catch (e) {",
+    "port.post({id: job.id, isOk: false, value: serialize(e, new Set())});",
+    "}",
+    "});",
+].join("")
+
+/**
+ * Builds the source of a function that applies `main` to every item of a chunk.
+ * Each item settles separately to `{ isOk, value }`, with thrown values serialized like the ones of whole jobs.
+ * @internal
+ */
+export const mapChunkSource = (main: string) => [
+    "(chunk) => {",
+    `const f = (${main});`,
+    "return Promise.all(chunk.map(async (item) => {",
+    "try { return { isOk: true, value: await f(item) }; }",
+    "catch (e) { return { isOk: false, value: serialize(e, new Set()) }; }",
+    "}));",
+    "}",
+].join("")
+
+const browserPort = [
+    "const port = {",
+    "post: (message) => postMessage(message),",
+    "listen: (listener) => { self.onmessage = (event) => listener(event.data); },",
+    "};",
+].join("")
+
+const nodePort = [
+    "const { parentPort } = require(\"worker_threads\");",
+    "const port = {",
+    "post: (message) => parentPort.postMessage(message),",
+    "listen: (listener) => parentPort.on(\"message\", listener),",
+    "};",
+].join("")
+
+const spawnBrowserWorker = (main: string, name: string, listeners: WorkerListeners): WorkerHandle => {
+    const objUrl =
+        URL.createObjectURL(
+            new File([
+                new Blob(
+                    [workerSource(browserPort, main)], { type: "text/javascript" }
+                )],
+            `${name}.js`,
+            { type: "text/javascript" }
+            ))
+    const worker = new Worker(objUrl)
+    worker.onmessage = (event) => listeners.message(event.data)
+    worker.onerror = (event) => listeners.error(event.error ?? event.message)
+    worker.onmessageerror = (event) => listeners.error(event.data)
+
+    return {
+        postMessage: (message, transfer) => worker.postMessage(message, transfer),
+        terminate: () => {
+            worker.terminate()
+            URL.revokeObjectURL(objUrl)
+        },
+    }
+}
+
+const spawnNodeWorker = (main: string, listeners: WorkerListeners): WorkerHandle => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { Worker } = require("worker_threads") as { Worker: typeof NodeWorker }
+    const worker = new Worker(workerSource(nodePort, main), { eval: true })
+    let terminated = false
+
+    // the worker keeps the process alive only while it has work to do
+    let pending = 0
+    const updateRef = () => {
+        if (pending === 0) {
+            worker.unref()
+        }
+        else {
+            worker.ref()
+        }
+    }
+
+    worker.on("message", (data) => {
+        pending = Math.max(0, pending - 1)
+        updateRef()
+        listeners.message(data)
+    })
+    worker.on("error", listeners.error)
+    worker.on("messageerror", listeners.error)
+    worker.on("exit", (code) => {
+        if (!terminated) {
+            listeners.error(new Error(`Worker exited with code ${code}`))
+        }
+    })
+    updateRef()
+
+    return {
+        postMessage: (message, transfer) => {
+            pending++
+            updateRef()
+            worker.postMessage(message, transfer as Array<TransferListItem>)
+        },
+        terminate: () => {
+            terminated = true
+            worker.terminate()
+        },
+    }
+}
+
+/**
+ * Spawns a worker that runs the function with the given source for each job it receives.
+ * Uses `worker_threads` in Node.js and Web Workers everywhere else.
+ * @internal
+ */
+export const spawnWorker = (main: string, name: string, listeners: WorkerListeners): WorkerHandle =>
+    isNode()
+        ? spawnNodeWorker(main, listeners)
+        : spawnBrowserWorker(main, name, listeners)
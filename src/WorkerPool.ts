@@ -0,0 +1,347 @@
+import { Panic } from "@frank-mayer/panic"
+import { Cancelled } from "./Cancelled"
+import { interrupt } from "./Interruption"
+import { remotePanic, SerializedThrown, toPanic } from "./RemoteError"
+import { spawnWorker, WorkerHandle } from "./WorkerBackend"
+
+/**
+ * Options for the pool of workers used by {@link Future.do}.
+ */
+export interface WorkerPoolOptions {
+    /**
+     * The maximum number of workers that exist at the same time.
+     * If the limit is reached, the least recently used idle worker is replaced. If no worker is idle, calls of other functions wait until one is.
+     */
+    maxWorkers?: number
+
+    /**
+     * Milliseconds after which an idle worker is terminated.
+     */
+    idleTimeout?: number
+}
+
+/**
+ * Receives the outcome of a job run by a {@link WorkerPool}.
+ * @internal
+ */
+export interface JobCallbacks {
+    ok(value: unknown): void
+    err(error: Panic): void
+}
+
+/**
+ * A single call of the function of a worker.
+ * @internal
+ */
+export interface Job {
+    args: Array<unknown>
+    /** Objects of `args` that are transferred to the worker instead of being copied. */
+    transfer: Array<Transferable>
+    /** Spawn another worker for the function if all of its workers are busy and the pool is not full. */
+    spread?: boolean
+}
+
+/**
+ * The message a worker posts back when a job is done.
+ */
+interface JobResult {
+    id: number
+    isOk: boolean
+    value: unknown
+}
+
+interface PooledWorker {
+    readonly main: string
+    readonly handle: WorkerHandle
+    /** The jobs that were posted to the worker and have not finished yet. */
+    readonly jobs: Map<number, JobCallbacks>
+    idleTimer: ReturnType<typeof setTimeout> | undefined
+}
+
+interface ScheduledJob {
+    readonly id: number
+    readonly main: string
+    readonly name: string
+    readonly job: Job
+    readonly callbacks: JobCallbacks
+    /** The worker the job was posted to, `undefined` while it is waiting for a free worker. */
+    worker: PooledWorker | undefined
+}
+
+/**
+ * The number of workers the pool is limited to by default.
+ * @internal
+ */
+export const defaultMaxWorkers = () =>
+    (typeof navigator === "object" && navigator.hardwareConcurrency) || 4
+
+/**
+ * Caches workers per function source and multiplexes the jobs for a function over its workers.
+ *
+ * Every job gets an id that the worker sends back with its result, so concurrent calls of the same function each get their own result.
+ * The number of workers is limited, workers are kept in least recently used order and terminated after being idle for a while.
+ * @internal
+ */
+export class WorkerPool {
+    /** All workers, in least recently used order. */
+    private workers = new Array<PooledWorker>()
+
+    /** Jobs waiting for a free worker. */
+    private queue = new Array<ScheduledJob>()
+
+    private nextJobId = 0
+
+    private maxWorkers = defaultMaxWorkers()
+
+    private idleTimeout = 30_000
+
+    public configure(options: WorkerPoolOptions) {
+        if (options.maxWorkers !== undefined) {
+            this.maxWorkers = Math.max(1, options.maxWorkers)
+        }
+
+        if (options.idleTimeout !== undefined) {
+            this.idleTimeout = options.idleTimeout
+            for (const worker of this.workers) {
+                this.release(worker)
+            }
+        }
+
+        for (const worker of this.workers.slice()) {
+            if (this.workers.length <= this.maxWorkers) {
+                break
+            }
+
+            if (worker.jobs.size === 0) {
+                this.retire(worker)
+            }
+        }
+
+        this.drain()
+    }
+
+    /**
+     * Runs the function with the given source in a worker.
+     * @returns A function that cancels the job.
+     */
+    public run(main: string, name: string, job: Job, callbacks: JobCallbacks): () => void {
+        const scheduled: ScheduledJob = {
+            id: this.nextJobId++,
+            main,
+            name,
+            job,
+            callbacks,
+            worker: undefined,
+        }
+
+        if (!this.start(scheduled)) {
+            this.queue.push(scheduled)
+        }
+
+        return () => this.cancel(scheduled)
+    }
+
+    /**
+     * Terminates all workers. Running and waiting jobs fail with a {@link Cancelled}.
+     */
+    public shutdown() {
+        const jobs = this.queue.map((scheduled) => scheduled.callbacks)
+        this.queue = []
+        for (const worker of this.workers.slice()) {
+            jobs.push(...worker.jobs.values())
+            this.retire(worker)
+        }
+
+        const cancelled = interrupt(new Cancelled("workers were shut down"))
+        for (const job of jobs) {
+            job.err(cancelled)
+        }
+    }
+
+    /**
+     * Posts a job to a worker of its function.
+     * @returns `false` if no worker is available for the job.
+     */
+    private start(scheduled: ScheduledJob): boolean {
+        const { id, main, name, job, callbacks } = scheduled
+
+        try {
+            const worker = this.select(main, name, job.spread ?? false)
+            if (!worker) {
+                return false
+            }
+
+            // move the worker to the end of the least recently used order
+            this.workers = this.workers.filter((other) => other !== worker)
+            this.workers.push(worker)
+
+            if (worker.idleTimer !== undefined) {
+                clearTimeout(worker.idleTimer)
+                worker.idleTimer = undefined
+            }
+
+            scheduled.worker = worker
+            worker.jobs.set(id, callbacks)
+            worker.handle.postMessage({ id, args: job.args }, job.transfer)
+        }
+        catch (e) {
+            if (scheduled.worker) {
+                scheduled.worker.jobs.delete(id)
+                this.release(scheduled.worker)
+            }
+            callbacks.err(toPanic(e))
+        }
+
+        return true
+    }
+
+    /**
+     * Picks the worker for a job: an idle worker of the function, a new worker, or the least busy worker of the function.
+     * A new worker is only spawned if the function has no worker yet or if `spread` is set.
+     */
+    private select(main: string, name: string, spread: boolean): PooledWorker | undefined {
+        const candidates = this.workers.filter((worker) => worker.main === main)
+        const idle = candidates.find((worker) => worker.jobs.size === 0)
+        if (idle) {
+            return idle
+        }
+
+        if (spread || candidates.length === 0) {
+            const spawned = this.spawn(main, name)
+            if (spawned) {
+                return spawned
+            }
+        }
+
+        return candidates.reduce<PooledWorker | undefined>(
+            (least, worker) => (!least || worker.jobs.size < least.jobs.size) ? worker : least,
+            undefined
+        )
+    }
+
+    /**
+     * Spawns a worker, replacing the least recently used idle worker if the pool is full.
+     * @returns `undefined` if the pool is full and no worker is idle.
+     */
+    private spawn(main: string, name: string): PooledWorker | undefined {
+        if (this.workers.length >= this.maxWorkers) {
+            const idle = this.workers.find((worker) => worker.jobs.size === 0)
+            if (!idle) {
+                return undefined
+            }
+
+            this.retire(idle)
+        }
+
+        const worker: PooledWorker = {
+            main,
+            jobs: new Map(),
+            idleTimer: undefined,
+            handle: spawnWorker(main, name, {
+                message: (data) => this.settle(worker, data as JobResult),
+                error: (error) => this.crash(worker, error),
+            }),
+        }
+        this.workers.push(worker)
+        return worker
+    }
+
+    private cancel(scheduled: ScheduledJob) {
+        const worker = scheduled.worker
+        if (!worker) {
+            this.queue = this.queue.filter((queued) => queued !== scheduled)
+            return
+        }
+
+        if (!worker.jobs.delete(scheduled.id)) {
+            return
+        }
+
+        // a running function can't be interrupted, so the worker is stopped if no other job needs it
+        if (worker.jobs.size === 0) {
+            this.retire(worker)
+            this.drain()
+        }
+    }
+
+    private settle(worker: PooledWorker, { id, isOk, value }: JobResult) {
+        const job = worker.jobs.get(id)
+        if (!job) {
+            // the job was cancelled
+            return
+        }
+
+        worker.jobs.delete(id)
+        this.release(worker)
+        this.drain()
+
+        if (isOk) {
+            job.ok(value)
+        }
+        else {
+            job.err(remotePanic(value as SerializedThrown))
+        }
+    }
+
+    /**
+     * Starts the idle timeout of a worker that has no jobs left.
+     */
+    private release(worker: PooledWorker) {
+        if (worker.jobs.size !== 0) {
+            return
+        }
+
+        if (worker.idleTimer !== undefined) {
+            clearTimeout(worker.idleTimer)
+            worker.idleTimer = undefined
+        }
+
+        if (!isFinite(this.idleTimeout)) {
+            return
+        }
+
+        worker.idleTimer = setTimeout(() => this.retire(worker), this.idleTimeout)
+        // the timer must not keep a Node.js process alive
+        if (typeof worker.idleTimer === "object") {
+            worker.idleTimer.unref()
+        }
+    }
+
+    /**
+     * Fails the jobs that were running on a crashed worker and removes it from the pool.
+     */
+    private crash(worker: PooledWorker, error: unknown) {
+        const jobs = Array.from(worker.jobs.values())
+        this.retire(worker)
+        this.drain()
+
+        const panic = toPanic(error)
+        for (const job of jobs) {
+            job.err(panic)
+        }
+    }
+
+    private retire(worker: PooledWorker) {
+        if (worker.idleTimer !== undefined) {
+            clearTimeout(worker.idleTimer)
+            worker.idleTimer = undefined
+        }
+
+        worker.jobs.clear()
+        this.workers = this.workers.filter((other) => other !== worker)
+        worker.handle.terminate()
+    }
+
+    /**
+     * Starts the waiting jobs that have a worker available now.
+     */
+    private drain() {
+        const waiting = this.queue
+        this.queue = []
+        for (const scheduled of waiting) {
+            if (!this.start(scheduled)) {
+                this.queue.push(scheduled)
+            }
+        }
+    }
+}
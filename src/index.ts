@@ -2,3 +2,16 @@ export * from "./Option"
 export * from "./Result"
 export * from "./Future"
 export * from "./IntoFuture"
+export * from "./Task"
+export * from "./Iter"
+export * from "./Stream"
+export * from "./Channel"
+export * from "./Pattern"
+export * from "./Cancelled"
+export * from "./RemoteError"
+export * from "./TimeoutError"
+export * from "./RetryError"
+export * from "./SendError"
+export * from "./LaggedError"
+export * from "./Backoff"
+export type { WorkerPoolOptions } from "./WorkerPool"
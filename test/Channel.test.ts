@@ -0,0 +1,168 @@
+import { broadcast, channel, oneshot } from "../Channel"
+import { Future } from "../Future"
+import { LaggedError } from "../LaggedError"
+import { none, some } from "../Option"
+import { err, ok } from "../Result"
+import { SendError } from "../SendError"
+
+test("channel", async () => {
+    const [tx, rx] = channel<number>()
+
+    expect(await tx.send(1)).toEqual(ok(undefined))
+    expect(await tx.send(2)).toEqual(ok(undefined))
+    expect(await rx.recv()).toEqual(ok(some(1)))
+    expect(rx.tryRecv()).toEqual(some(2))
+    expect(rx.tryRecv()).toEqual(none())
+
+    const a = rx.recv()
+    tx.send(3)
+    expect(await a).toEqual(ok(some(3)))
+
+    tx.send(4)
+    tx.close()
+    expect(await rx.recv()).toEqual(ok(some(4)))
+    expect(await rx.recv()).toEqual(ok(none()))
+    expect((await tx.send(5)).unwrapErr()).toEqual(new SendError(5))
+})
+
+test("channel backpressure", async () => {
+    const [tx, rx] = channel<number>(1)
+    const order = new Array<string>()
+
+    tx.send(1).then(() => order.push("sent 1"))
+    tx.send(2).then(() => order.push("sent 2"))
+    expect(tx.trySend(3).unwrapErr().kind).toBe("full")
+    await Future.sleep(0)
+    expect(order).toEqual(["sent 1"])
+
+    expect(await rx.recv()).toEqual(ok(some(1)))
+    await Future.sleep(0)
+    expect(order).toEqual(["sent 1", "sent 2"])
+    expect(await rx.recv()).toEqual(ok(some(2)))
+
+    expect(() => channel(0)).toThrow()
+})
+
+test("channel cancel", async () => {
+    const [tx, rx] = channel<number>(1)
+
+    const recv = rx.recv()
+    recv.cancel()
+    tx.send(1)
+    expect((await recv).isErr()).toBe(true)
+
+    const blocked = tx.send(2)
+    blocked.cancel()
+    tx.close()
+    expect(await rx.recv()).toEqual(ok(some(1)))
+    expect(await rx.recv()).toEqual(ok(none()))
+})
+
+test("channel close receiver", async () => {
+    const [tx, rx] = channel<number>(1)
+
+    tx.send(1)
+    const blocked = tx.send(2)
+    rx.close()
+
+    expect(tx.isClosed()).toBe(true)
+    expect(await blocked).toEqual(err(new SendError(2)))
+    expect(tx.trySend(3).unwrapErr().kind).toBe("closed")
+    expect(await rx.recv()).toEqual(ok(some(1)))
+    expect(await rx.recv()).toEqual(ok(none()))
+})
+
+test("channel many senders", async () => {
+    const [tx, rx] = channel<string>()
+    const tx2 = tx.clone()
+
+    const received = (async () => {
+        const values = new Array<string>()
+        for await (const value of rx) {
+            values.push(value)
+        }
+        return values
+    })()
+
+    await tx.send("a")
+    tx.close()
+    await tx2.send("b")
+    tx2.close()
+
+    expect(await received).toEqual(["a", "b"])
+    expect(() => tx.clone()).toThrow()
+})
+
+test("oneshot", async () => {
+    const [tx, rx] = oneshot<number>()
+
+    const a = rx.recv()
+    expect(tx.send(42)).toEqual(ok(undefined))
+    expect(tx.send(43)).toEqual(err(new SendError(43)))
+    expect(await a).toEqual(ok(some(42)))
+    expect(await rx.recv()).toEqual(ok(none()))
+
+    const [tx2, rx2] = oneshot<number>()
+    tx2.send(1)
+    const values = new Array<number>()
+    for await (const value of rx2) {
+        values.push(value)
+    }
+    expect(values).toEqual([1])
+
+    const [tx3, rx3] = oneshot<number>()
+    const b = rx3.recv()
+    tx3.close()
+    expect(await b).toEqual(ok(none()))
+
+    const [tx4, rx4] = oneshot<number>()
+    rx4.close()
+    expect(tx4.isClosed()).toBe(true)
+    expect(tx4.send(1).isErr()).toBe(true)
+})
+
+test("broadcast", async () => {
+    const [tx, rx] = broadcast<number>(16)
+    const rx2 = tx.subscribe()
+
+    const a = rx.recv()
+    expect(tx.send(1)).toEqual(ok(2))
+    expect(await a).toEqual(ok(some(1)))
+    expect(await rx2.recv()).toEqual(ok(some(1)))
+
+    const rx3 = rx.resubscribe()
+    tx.send(2)
+    rx2.close()
+    expect(tx.receiverCount()).toBe(2)
+    expect(await rx3.recv()).toEqual(ok(some(2)))
+
+    tx.close()
+    expect(await rx.recv()).toEqual(ok(some(2)))
+    expect(await rx.recv()).toEqual(ok(none()))
+    expect(tx.send(3).isErr()).toBe(true)
+})
+
+test("broadcast lagged", async () => {
+    const [tx, rx] = broadcast<number>(2)
+
+    tx.send(1)
+    tx.send(2)
+    tx.send(3)
+    tx.send(4)
+
+    expect(await rx.recv()).toEqual(err(new LaggedError(2)))
+    expect(await rx.recv()).toEqual(ok(some(3)))
+
+    tx.send(5)
+    tx.send(6)
+    tx.close()
+    const values = new Array<number>()
+    for await (const value of rx) {
+        values.push(value)
+    }
+    expect(values).toEqual([5, 6])
+
+    const [tx2, rx2] = broadcast<number>(1)
+    rx2.close()
+    expect(tx2.send(1)).toEqual(err(new SendError(1)))
+})
@@ -1,13 +1,24 @@
 // import { Panic } from "@frank-mayer/panic"
 import { Panic } from "@frank-mayer/panic"
-import { Future } from "../Future"
-import { err, ok } from "../Result"
+import { Backoff } from "../Backoff"
+import { Cancelled } from "../Cancelled"
+import { Future, Interruption } from "../Future"
+import { RemoteError } from "../RemoteError"
+import { RetryError } from "../RetryError"
+import { TimeoutError } from "../TimeoutError"
+import { Result, err, ok } from "../Result"
 import { some, none } from "../Option"
 
+// the workers of Future.do and their idle timers would keep jest from exiting
+afterAll(() => Future.shutdownWorkers())
+
 test("constructor", async () => {
-    expect(new Future(((ok) => ok(1))))
+    const f = new Future(((ok) => ok(1)))
+    expect(f).toBeInstanceOf(Future)
+
+    await expect(f)
         .resolves
-        .toBeInstanceOf(Future)
+        .toEqual(ok(1))
 })
 
 test("from resolve", async () => {
@@ -89,8 +100,10 @@ test("join err", async () => {
     expect(f).toBeInstanceOf(Future)
 
     const fValue = await f
-    expect(fValue).toEqual(err([1, 2]))
-    expect(fValue).not.toEqual(err([1, 3]))
+    expect(fValue).toEqual(err([undefined, 1, 2]))
+    expect(1 in fValue.unwrapErr()).toBe(true)
+    expect(0 in fValue.unwrapErr()).toBe(false)
+    expect(fValue).not.toEqual(err([1, 2]))
     expect(fValue).not.toEqual(ok([1, 2]))
 })
 
@@ -105,7 +118,7 @@ test("join reject", async () => {
     ])
     expect(f).toBeInstanceOf(Future)
 
-    expect(f).resolves.toThrow()
+    await expect(f).resolves.toEqual(err([undefined, expect.any(Panic)]))
 })
 
 test("andThen", async () => {
@@ -127,6 +140,16 @@ test("orElse", async () => {
     expect(fValue).toEqual(ok(0))
 })
 
+test("andThen orElse widen the error", async () => {
+    const a: Future<number, string | RangeError> = Future.ok<number, string>(42)
+        .andThen((x) => x > 40 ? Future.err<number, RangeError>(new RangeError("too big")) : Future.ok<number, RangeError>(x))
+    expect((await a).unwrapErr()).toBeInstanceOf(RangeError)
+
+    const b: Future<number, RangeError> = Future.err<number, string>("error")
+        .orElse((e) => err<number, RangeError>(new RangeError(e)))
+    expect((await b).unwrapErr()).toBeInstanceOf(RangeError)
+})
+
 test("map", async () => {
     const f = Future.ok(1)
         .map((v) => v + 1)
@@ -136,3 +159,734 @@ test("map", async () => {
     const fValue = await f
     expect(fValue).toEqual(ok(4))
 })
+
+test("gen", async () => {
+    const a = Future.gen(async function* () {
+        const x = yield* Future.ok<number, string>(40)
+        const y = yield* ok<number, Error>(1).try()
+        const z = yield* some(1).try()
+        return x + y + z
+    })
+    const b = Future.gen(async function* () {
+        const x = yield* Future.ok<number, string>(40)
+        const y = yield* Future.err<number, string>("error")
+        return x + y
+    })
+    const c = Future.gen(async function* () {
+        const x = yield* Future.ok<number, string>(40)
+        const y = yield* none<number>().try()
+        return x + y
+    })
+    const d = Future.gen(async function* () {
+        const x = yield Result.ok<number, string>(41)
+        return (x as number) + 1
+    })
+
+    const aValue: Result<number, string | Error | null> = await a
+    expect(aValue).toEqual(ok(42))
+    expect(await b).toEqual(err("error"))
+    expect(await c).toEqual(err(null))
+    expect(await d).toEqual(ok(42))
+})
+
+test("gen finally throws", async () => {
+    const f = Future.gen(async function* () {
+        try {
+            yield* Future.err<number, string>("error")
+        }
+        finally {
+            throw new Error("finally")
+        }
+    })
+
+    const error = (await f).unwrapErr() as Panic
+    expect(error).toBeInstanceOf(Panic)
+    expect(error.message).toBe("finally")
+})
+
+test("cancel", async () => {
+    let released = false
+    const f = new Future<number, Cancelled>((_, __, onCancel) => {
+        onCancel(() => {
+            released = true
+        })
+    })
+    f.cancel("stop")
+
+    const fValue = await f
+    expect(fValue.unwrapErr()).toBeInstanceOf(Cancelled)
+    expect((fValue.unwrapErr() as Cancelled).reason).toBe("stop")
+    expect(released).toBe(true)
+})
+
+test("cancel after settled", async () => {
+    let released = false
+    const f = new Future<number, Cancelled>((ok, _, onCancel) => {
+        onCancel(() => {
+            released = true
+        })
+        ok(1)
+    })
+    f.cancel()
+
+    expect(await f).toEqual(ok(1))
+    expect(released).toBe(false)
+})
+
+test("cancel propagates", async () => {
+    let released = false
+    const source = new Future<number, Cancelled>((_, __, onCancel) => {
+        onCancel(() => {
+            released = true
+        })
+    })
+    const f = source
+        .map((v) => v + 1)
+        .andThen((v) => Future.ok(v + 1))
+    f.cancel()
+
+    expect((await f).unwrapErr()).toBeInstanceOf(Cancelled)
+    expect((await source).unwrapErr()).toBeInstanceOf(Cancelled)
+    expect(released).toBe(true)
+})
+
+test("cancel skips error handlers", async () => {
+    const source = new Future<number, string>(() => undefined)
+    const handled = new Array<string>()
+    const f = source
+        .inspectErr(() => handled.push("inspectErr"))
+        .mapErr((e) => {
+            handled.push("mapErr")
+            return e.length
+        })
+        .orElse(() => {
+            handled.push("orElse")
+            return Future.ok<number, number>(0)
+        })
+    source.cancel()
+
+    expect((await f).unwrapErr()).toBeInstanceOf(Cancelled)
+    expect(handled).toEqual([])
+    await expect(source.match(() => "ok", () => "err")).rejects.toBeInstanceOf(Cancelled)
+
+    const failed = Future.err<number, Cancelled>(new Cancelled("domain"))
+    expect(await failed.orElse(() => Future.ok(1))).toEqual(ok(1))
+})
+
+test("withSignal", async () => {
+    const controller = new AbortController()
+    const f = Future.withSignal<number, string>(controller.signal, () => undefined)
+    controller.abort("stop")
+
+    const fValue = await f
+    expect(fValue.unwrapErr()).toBeInstanceOf(Cancelled)
+
+    const aborted = Future.withSignal<number, string>(controller.signal, (ok) => ok(1))
+    expect((await aborted).unwrapErr()).toBeInstanceOf(Cancelled)
+})
+
+test("abortable", async () => {
+    const controller = new AbortController()
+    const source = new Future<number, Cancelled>(() => undefined)
+    const f = Future.abortable(source, controller.signal)
+    controller.abort()
+
+    expect((await f).unwrapErr()).toBeInstanceOf(Cancelled)
+    expect((await source).unwrapErr()).toBeInstanceOf(Cancelled)
+})
+
+test("do", async () => {
+    const f = Future.do(() => 42)
+    expect(f).toBeInstanceOf(Future)
+
+    expect(await f).toEqual(ok(42))
+    expect(await Future.do(() => ({ foo: "bar" }))).toEqual(ok({ foo: "bar" }))
+})
+
+test("do promise", async () => {
+    const f = Future.do(() => new Promise<number>((resolve) => {
+        setTimeout(() => resolve(42), 1)
+    }))
+
+    expect(await f).toEqual(ok(42))
+})
+
+test("do throws", async () => {
+    const f = Future.do(() => {
+        throw new Error("Something went wrong")
+    })
+
+    const fValue = await f
+    expect(fValue.unwrapErr()).toBeInstanceOf(Panic)
+    expect(fValue.unwrapErr().message).toBe("Something went wrong")
+})
+
+test("do cancel", async () => {
+    const f = Future.do(() => new Promise<number>(() => undefined))
+    f.cancel()
+
+    expect((await f).unwrapErr()).toBeInstanceOf(Cancelled)
+})
+
+test("do concurrent", async () => {
+    const count = () => new Promise<number>((resolve) => {
+        const scope = globalThis as unknown as { calls?: number }
+        const call = scope.calls = (scope.calls ?? 0) + 1
+        setTimeout(() => resolve(call), call === 1 ? 20 : 1)
+    })
+
+    const values = await Promise.all([Future.do(count), Future.do(count)])
+    expect(values.map((value) => value.unwrap()).sort()).toEqual([1, 2])
+})
+
+test("do crash", async () => {
+    const f = Future.do(() => new Promise<number>(() => {
+        setTimeout(() => {
+            throw new Error("crash")
+        }, 1)
+    }))
+
+    const fValue = await f
+    expect(fValue.unwrapErr()).toBeInstanceOf(Panic)
+    expect(fValue.unwrapErr().message).toBe("crash")
+})
+
+test("do arguments", async () => {
+    const add = (x: number, y: number) => x + y
+
+    expect(await Future.do(add, 40, 2)).toEqual(ok(42))
+    expect(await Future.do(add, 1, 2)).toEqual(ok(3))
+})
+
+test("doWith transfer", async () => {
+    const buffer = new Float64Array([1, 2, 3]).buffer
+    const f = Future.doWith(
+        (data: ArrayBuffer) => new Float64Array(data).reduce((sum, x) => sum + x, 0),
+        [buffer],
+        { transfer: [buffer] }
+    )
+
+    expect(buffer.byteLength).toBe(0)
+    expect(await f).toEqual(ok(6))
+})
+
+test("configureWorkers maxWorkers", async () => {
+    Future.configureWorkers({ maxWorkers: 1 })
+
+    const a = Future.do(() => new Promise<string>((resolve) => {
+        setTimeout(() => resolve("a"), 10)
+    }))
+    const b = Future.do(() => "b")
+
+    expect(await Promise.all([a, b])).toEqual([ok("a"), ok("b")])
+
+    Future.configureWorkers({ maxWorkers: 4 })
+})
+
+test("configureWorkers idleTimeout", async () => {
+    Future.configureWorkers({ idleTimeout: 10 })
+    const count = () => {
+        const scope = globalThis as unknown as { calls?: number }
+        return scope.calls = (scope.calls ?? 0) + 1
+    }
+
+    expect(await Future.do(count)).toEqual(ok(1))
+    expect(await Future.do(count)).toEqual(ok(2))
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(await Future.do(count)).toEqual(ok(1))
+
+    Future.configureWorkers({ idleTimeout: 30_000 })
+})
+
+test("shutdownWorkers", async () => {
+    const f = Future.do(() => new Promise<number>(() => undefined))
+    Future.shutdownWorkers()
+
+    expect((await f).unwrapErr()).toBeInstanceOf(Cancelled)
+    expect(await Future.do(() => 42)).toEqual(ok(42))
+
+    let handled = false
+    const g = Future.do(() => new Promise<number>(() => undefined)).mapErr(() => {
+        handled = true
+        return "error"
+    })
+    Future.shutdownWorkers()
+
+    expect((await g).unwrapErr()).toBeInstanceOf(Cancelled)
+    expect(handled).toBe(false)
+})
+
+test("do throws value", async () => {
+    const f = Future.do(() => {
+        throw "Something went wrong"
+    })
+
+    const panic = (await f).unwrapErr() as Panic & { cause: unknown }
+    expect(panic).toBeInstanceOf(Panic)
+    expect(panic.message).toBe("Something went wrong")
+    expect(panic.cause).toBe("Something went wrong")
+})
+
+test("do throws error details", async () => {
+    const f = Future.do(() => {
+        class ValidationError extends Error {
+            public readonly field = "age"
+
+            constructor(message: string) {
+                super(message)
+                this.name = "ValidationError"
+            }
+        }
+
+        const error = new ValidationError("Invalid age")
+        ;(error as Error & { cause?: unknown }).cause = new RangeError("Out of range")
+        throw error
+    })
+
+    const panic = (await f).unwrapErr() as Panic & { cause: unknown }
+    expect(panic.message).toBe("Invalid age")
+
+    const remote = panic.cause as RemoteError & { field: string }
+    expect(remote).toBeInstanceOf(RemoteError)
+    expect(remote.name).toBe("ValidationError")
+    expect(remote.message).toBe("Invalid age")
+    expect(remote.stack).toContain("Invalid age")
+    expect(remote.field).toBe("age")
+    expect(remote.cause).toBeInstanceOf(RemoteError)
+    expect((remote.cause as RemoteError).name).toBe("RangeError")
+})
+
+test("parallelMap", async () => {
+    const items = Array.from({ length: 50 }, (_, i) => i)
+    const f = Future.parallelMap(items, (x: number) => x * x, { concurrency: 3, chunkSize: 4 })
+
+    expect(await f).toEqual(ok(items.map((x) => x * x)))
+    expect(await Future.parallelMap([], (x: number) => x)).toEqual(ok([]))
+})
+
+test("parallelMap err", async () => {
+    const f = Future.parallelMap([1, 2, 3, 4], (x: number) => {
+        if (x % 2 === 0) {
+            throw new Error(`${x} is even`)
+        }
+        return x
+    }, { chunkSize: 3 })
+
+    const errors = (await f).unwrapErr() as ReadonlyArray<Panic>
+    expect(errors).toHaveLength(4)
+    expect(Object.keys(errors)).toEqual(["1", "3"])
+    expect(errors.map((error) => error.message)).toEqual([undefined, "2 is even", undefined, "4 is even"])
+})
+
+test("parallelMap uncloneable item", async () => {
+    const f = Future.parallelMap<unknown, string>([1, () => 2, 3], (x) => typeof x, { concurrency: 1, chunkSize: 1 })
+
+    const errors = (await f).unwrapErr() as ReadonlyArray<Panic>
+    expect(Object.keys(errors)).toEqual(["1"])
+    expect(errors[1]).toBeInstanceOf(Panic)
+
+    const g = Future.parallelMap<unknown, string>([() => 1, 2], (x) => typeof x, { concurrency: 1, chunkSize: 1 })
+    expect(Object.keys((await g).unwrapErr())).toEqual(["0"])
+})
+
+test("parallelMap cancel", async () => {
+    const f = Future.parallelMap([1, 2, 3], () => new Promise<number>(() => undefined))
+    f.cancel()
+
+    expect((await f).unwrapErr()).toBeInstanceOf(Cancelled)
+})
+
+test("sleep", async () => {
+    const start = Date.now()
+    expect(await Future.sleep(20)).toEqual(ok(undefined))
+    expect(Date.now() - start).toBeGreaterThanOrEqual(15)
+})
+
+test("delay", async () => {
+    expect(await Future.delay(42, 1)).toEqual(ok(42))
+
+    const f = Future.delay(42, 1000)
+    f.cancel()
+    expect((await f).unwrapErr()).toBeInstanceOf(Cancelled)
+})
+
+test("timeout", async () => {
+    const source = Future.delay(42, 1000)
+    const f = source.timeout(10)
+
+    const fValue = await f
+    expect(fValue.unwrapErr()).toBeInstanceOf(TimeoutError)
+    expect((fValue.unwrapErr() as TimeoutError).ms).toBe(10)
+    expect((await source).unwrapErr()).toBeInstanceOf(Cancelled)
+
+    expect(await Future.delay(42, 1).timeout(1000)).toEqual(ok(42))
+})
+
+test("deadline", async () => {
+    const f = Future.delay(42, 1000).deadline(new Date(Date.now() + 10))
+    expect((await f).unwrapErr()).toBeInstanceOf(TimeoutError)
+
+    const g = Future.ok(42).deadline(new Date(Date.now() + 1000))
+    expect(await g).toEqual(ok(42))
+})
+
+test("static deadline", async () => {
+    const source = Future.delay(42, 1000)
+    const f: Future<number, TimeoutError> = Future.race([source, Future.deadline(new Date(Date.now() + 10))])
+    expect((await f).unwrapErr()).toBeInstanceOf(TimeoutError)
+    expect((await source).unwrapErr()).toBeInstanceOf(Cancelled)
+
+    const g = Future.deadline(new Date(Date.now() + 1000))
+    g.cancel()
+    expect((await g).unwrapErr()).toBeInstanceOf(Cancelled)
+})
+
+test("retry", async () => {
+    let attempts = 0
+    const f = Future.retry(() => {
+        attempts++
+        return attempts < 3 ? Future.err<number, string>(`error ${attempts}`) : Future.ok<number, string>(42)
+    }, { backoff: Backoff.fixed(1) })
+
+    expect(await f).toEqual(ok(42))
+    expect(attempts).toBe(3)
+})
+
+test("retry err", async () => {
+    let attempts = 0
+    const f = Future.retry(() => Future.err<number, number>(++attempts), {
+        backoff: Backoff.fixed(1),
+        maxAttempts: 4,
+    })
+
+    const error = (await f).unwrapErr()
+    expect(error).toBeInstanceOf(RetryError)
+    expect((error as RetryError<number>).errors).toEqual([1, 2, 3, 4])
+})
+
+test("retry shouldRetry", async () => {
+    const f = Future.retry(() => Future.err<number, string>("fatal"), {
+        backoff: Backoff.fixed(1),
+        shouldRetry: (err) => err !== "fatal",
+    })
+
+    expect(((await f).unwrapErr() as RetryError<string>).errors).toEqual(["fatal"])
+})
+
+test("retry maxElapsed", async () => {
+    const f = Future.retry(() => Future.err<number, string>("error"), {
+        backoff: Backoff.fixed(1000),
+        maxAttempts: 10,
+        maxElapsed: 100,
+    })
+
+    expect(((await f).unwrapErr() as RetryError<string>).errors).toEqual(["error"])
+})
+
+test("retry cancel", async () => {
+    let attempts = 0
+    const f = Future.retry(() => {
+        attempts++
+        return Future.err<number, string>("error")
+    }, { backoff: Backoff.fixed(20), maxAttempts: 10 })
+    await Future.sleep(5)
+    f.cancel()
+    await Future.sleep(50)
+
+    expect((await f).unwrapErr()).toBeInstanceOf(Cancelled)
+    expect(attempts).toBe(1)
+})
+
+test("Backoff", () => {
+    const exponential = Backoff.exponential({ initial: 10, factor: 3, max: 100 })
+    expect([1, 2, 3, 4].map((attempt) => exponential(attempt, 0))).toEqual([10, 30, 90, 100])
+
+    const jitter = Backoff.decorrelatedJitter({ base: 10, max: 50 })
+    for (let i = 0; i < 20; i++) {
+        const delay = jitter(2, 20)
+        expect(delay).toBeGreaterThanOrEqual(10)
+        expect(delay).toBeLessThanOrEqual(50)
+    }
+})
+
+test("race", async () => {
+    const slow = Future.delay(1, 1000)
+    const f = Future.race([slow, Future.err<string, Error>(new Error("fast"))])
+
+    expect((await f).unwrapErr().message).toBe("fast")
+    expect((await slow).unwrapErr()).toBeInstanceOf(Cancelled)
+})
+
+test("any", async () => {
+    const slow = Future.delay(1, 1000)
+    const a = Future.any([Future.err<number, string>("a"), Future.delay(42, 5), slow])
+    expect(await a).toEqual(ok(42))
+    expect((await slow).unwrapErr()).toBeInstanceOf(Cancelled)
+
+    const b = Future.any([Future.err<number, string>("a"), Future.err<boolean, number>(1)])
+    const errors: Readonly<[string, number] | Interruption> = (await b).unwrapErr()
+    expect(errors).toEqual(["a", 1])
+})
+
+test("select", async () => {
+    const first = Future.delay("first", 5)
+    const second = Future.delay("second", 10)
+    const [result, index, remaining] = (await Future.select([second, first])).unwrap()
+
+    expect(result).toEqual(ok("first"))
+    expect(index).toBe(1)
+    expect(remaining).toEqual([second])
+    expect(await second).toEqual(ok("second"))
+})
+
+test("allSettled", async () => {
+    const f = Future.allSettled([Future.ok<number, string>(42), Future.err<boolean, string>("error")])
+    const [a, b]: readonly [Result<number, string | Interruption>, Result<boolean, string | Interruption>] = (await f).unwrap()
+
+    expect(a).toEqual(ok(42))
+    expect(b).toEqual(err("error"))
+})
+
+test("tryJoin", async () => {
+    const a = Future.tryJoin([Future.ok<number, string>(42), Future.delay("value", 5)])
+    const values: readonly [number, string] = (await a).unwrap()
+    expect(values).toEqual([42, "value"])
+
+    const slow = Future.delay(1, 1000)
+    const b = Future.tryJoin([slow, Future.err<number, string>("error")])
+    expect(await b).toEqual(err("error"))
+    expect((await slow).unwrapErr()).toBeInstanceOf(Cancelled)
+})
+
+test("join tuple", async () => {
+    const a = Future.join([Future.ok<number, string>(42), Future.delay("value", 5)])
+    const values: readonly [number, string] = (await a).unwrap()
+    expect(values).toEqual([42, "value"])
+
+    const b = Future.join([Future.ok<boolean, Error>(true), Future.err<number, string>("error")])
+    const errors: Readonly<[Error?, string?] | Interruption> = (await b).unwrapErr()
+    expect(errors).toEqual([undefined, "error"])
+    expect(Object.keys(errors)).toEqual(["1"])
+})
+
+test("joinObject", async () => {
+    const a = Future.joinObject({ answer: Future.ok<number, string>(42), name: Future.delay("value", 5) })
+    const values: Readonly<{ answer: number, name: string }> = (await a).unwrap()
+    expect(values).toEqual({ answer: 42, name: "value" })
+
+    const b = Future.joinObject({
+        answer: Future.ok<number, string>(42),
+        user: Future.err<string, string>("not found"),
+        config: Future.err<boolean, number>(404),
+    })
+    const errors: Readonly<{ answer?: string, user?: string, config?: number } | Interruption> = (await b).unwrapErr()
+    expect(errors).toEqual({ user: "not found", config: 404 })
+})
+
+test("mapErr mapBoth", async () => {
+    expect(await Future.err<number, string>("error").mapErr((e) => e.length)).toEqual(err(5))
+    expect(await Future.ok<number, string>(1).mapErr((e) => e.length)).toEqual(ok(1))
+    expect(await Future.ok<number, string>(1).mapBoth((x) => x + 1, (e) => e.length)).toEqual(ok(2))
+    expect(await Future.err<number, string>("error").mapBoth((x) => x + 1, (e) => e.length)).toEqual(err(5))
+})
+
+test("inspect inspectErr", async () => {
+    const seen = new Array<unknown>()
+
+    expect(await Future.ok<number, string>(1).inspect((x) => seen.push(x)).inspectErr((e) => seen.push(e))).toEqual(ok(1))
+    expect(await Future.err<number, string>("error").inspect((x) => seen.push(x)).inspectErr((e) => seen.push(e))).toEqual(err("error"))
+    expect(seen).toEqual([1, "error"])
+})
+
+test("match unwrapOr unwrapOrElse", async () => {
+    const a = Future.ok<number, string>(1)
+    const b = Future.err<number, string>("error")
+
+    expect(await a.match((x) => x * 2, (e) => e.length)).toBe(2)
+    expect(await b.match((x) => x * 2, (e) => Promise.resolve(e.length))).toBe(5)
+    expect(await a.unwrapOr(0)).toBe(1)
+    expect(await b.unwrapOr(0)).toBe(0)
+    expect(await b.unwrapOrElse((e) => e.length)).toBe(5)
+    expect(await b.match({ ok: (x) => x * 2, err: (e) => e.length })).toBe(5)
+})
+
+test("flatten", async () => {
+    const a: Future<number, Error | string> = Future.ok<Future<number, string>, Error>(Future.ok(42)).flatten()
+    expect(await a).toEqual(ok(42))
+
+    const b = Future.ok<Result<number, string>, Error>(err("inner")).flatten()
+    expect(await b).toEqual(err("inner"))
+})
+
+test("and or", async () => {
+    const a: Future<string, number | boolean> = Future.ok<number, number>(1).and(Future.ok<string, boolean>("a"))
+    expect(await a).toEqual(ok("a"))
+    expect(await Future.err<number, number>(1).and(Future.ok<string, boolean>("a"))).toEqual(err(1))
+
+    const b: Future<number | string, boolean> = Future.err<number, number>(1).or(Future.ok<string, boolean>("a"))
+    expect(await b).toEqual(ok("a"))
+    expect(await Future.ok<number, number>(1).or(Future.err<string, boolean>(false))).toEqual(ok(1))
+})
+
+test("finally", async () => {
+    let calls = 0
+    expect(await Future.ok(1).finally(() => calls++)).toEqual(ok(1))
+    expect(await Future.err("error").finally(() => calls++)).toEqual(err("error"))
+
+    const c = Future.sleep(1000).finally(() => calls++)
+    c.cancel()
+    expect((await c).unwrapErr()).toBeInstanceOf(Cancelled)
+    expect(calls).toBe(3)
+})
+
+test("toPromise", async () => {
+    await expect(Future.ok(1).toPromise()).resolves.toBe(1)
+    await expect(Future.err("error").toPromise()).rejects.toBe("error")
+})
+
+test("Promise methods return plain Promises", async () => {
+    const f = Future.ok<number, string>(1)
+
+    const then = f.then((result) => result.unwrap() + 1)
+    expect(then).not.toBeInstanceOf(Future)
+    expect(then).toBeInstanceOf(Promise)
+    await expect(then).resolves.toBe(2)
+
+    const caught = f.catch(() => 0)
+    expect(caught).not.toBeInstanceOf(Future)
+    await expect(caught).resolves.toEqual(ok(1))
+})
+
+test("never rejects", async () => {
+    const f = Future.err<number, string>("error")
+
+    const thrown = f.then(() => {
+        throw new Error("callback")
+    })
+    await expect(thrown).rejects.toThrow("callback")
+    await expect(f).resolves.toEqual(err("error"))
+
+    const rejected = Future.from(Promise.reject(new Error("rejected")))
+    await expect(rejected).resolves.toBeInstanceOf(Result)
+})
+
+test("executor throws", async () => {
+    const thrown = new TypeError("executor")
+    const f = new Future<number, string>(() => {
+        throw thrown
+    })
+
+    const error = (await f).unwrapErr() as Panic
+    expect(error).toBeInstanceOf(Panic)
+    expect(error.message).toBe("executor")
+    expect((error as { cause?: unknown }).cause).toBe(thrown)
+})
+
+test("executor throws cyclic object", async () => {
+    const cyclic: { self?: unknown } = {}
+    cyclic.self = cyclic
+    const f = new Future<number, string>(() => {
+        throw cyclic
+    })
+
+    const error = (await f).unwrapErr() as Panic
+    expect(error).toBeInstanceOf(Panic)
+    expect(error.message).toBe("[object Object]")
+    expect((error as { cause?: unknown }).cause).toBe(cyclic)
+})
+
+test("executor throws bigint", async () => {
+    const f = new Future<number, string>(() => {
+        throw BigInt(42)
+    })
+
+    const error = (await f).unwrapErr() as Panic
+    expect(error).toBeInstanceOf(Panic)
+    expect(error.message).toBe("42")
+})
+
+test("callback throws", async () => {
+    const a = Future.ok<number, string>(1).map(() => {
+        throw new Error("map")
+    })
+    expect(((await a).unwrapErr() as Panic).message).toBe("map")
+
+    const b = Future.ok<number, string>(1).andThen(() => {
+        throw "andThen"
+    })
+    expect(((await b).unwrapErr() as Panic).message).toBe("andThen")
+
+    const c = Future.err<number, string>("error").orElse(() => ok(err<number, string>("other").unwrap()))
+    expect((await c).unwrapErr()).toBeInstanceOf(Panic)
+
+    const d = Future.gen(async function* () {
+        yield* Future.ok<number, string>(1)
+        throw new Error("gen")
+    })
+    expect(((await d).unwrapErr() as Panic).message).toBe("gen")
+})
+
+test("panic skips error handlers", async () => {
+    let handled = false
+    const f = Future.ok<number, string>(1)
+        .map((): number => {
+            throw new Error("map")
+        })
+        .orElse(() => {
+            handled = true
+            return Future.ok<number, string>(0)
+        })
+
+    expect((await f).unwrapErr()).toBeInstanceOf(Panic)
+    expect(handled).toBe(false)
+    await expect(f.unwrapOr(0)).rejects.toBeInstanceOf(Panic)
+
+    const domain = new Panic("domain")
+    const thrown = await Future.ok<number, Panic>(1).map((): number => {
+        throw domain
+    })
+    expect((thrown.unwrapErr() as { cause?: unknown }).cause).toBe(domain)
+    expect(await Future.err<number, Panic>(domain).orElse(() => Future.ok(1))).toEqual(ok(1))
+})
+
+test("setPanicHook", async () => {
+    const panics = new Array<Panic>()
+    Future.setPanicHook((panic) => panics.push(panic))
+
+    try {
+        const f = Future.ok(1).mapErr(() => 0).inspect(() => {
+            throw new Error("inspect")
+        })
+        const error = (await f).unwrapErr()
+
+        expect(panics).toEqual([error])
+        expect(panics[0]?.message).toBe("inspect")
+    }
+    finally {
+        Future.setPanicHook(undefined)
+    }
+})
+
+test("from mapError", async () => {
+    const a = Future.from(Promise.reject(404), (reason) => ({ status: Number(reason) }))
+    expect(await a).toEqual(err({ status: 404 }))
+
+    const b = Future.from(Promise.resolve(1), () => "unused")
+    expect(await b).toEqual(ok(1))
+
+    const c = Future.from(Promise.reject(null), () => {
+        throw new Error("mapError")
+    })
+    expect((await c).unwrapErr()).toBeInstanceOf(Panic)
+})
+
+test("parse reject", async () => {
+    const a = Future.parse<number, string>(Promise.reject("error"))
+    const error = (await a).unwrapErr() as Panic
+    expect(error).toBeInstanceOf(Panic)
+    expect(error.message).toBe("error")
+    expect((await a.orElse(() => Future.ok<number, string>(0))).unwrapErr()).toBe(error)
+
+    const b = Future.parse<number, string>(Promise.reject(new Error("error")), (reason) => `mapped: ${(reason as Error).message}`)
+    expect(await b).toEqual(err("mapped: error"))
+})
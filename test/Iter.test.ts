@@ -0,0 +1,162 @@
+import { Iter } from "../Iter"
+import { none, Option, some } from "../Option"
+import { err, ok, Result } from "../Result"
+
+test("from", () => {
+    expect(Iter.from([1, 2, 3]).collect()).toEqual([1, 2, 3])
+    expect(Iter.from(new Set(["a", "b"])).collect()).toEqual(["a", "b"])
+    expect(Iter.from("ab").collect()).toEqual(["a", "b"])
+
+    const a = Iter.from([1])
+    expect(Iter.from(a)).toBe(a)
+})
+
+test("next", () => {
+    const a = Iter.from([1, 2])
+
+    expect(a.next()).toEqual(some(1))
+    expect(a.next()).toEqual(some(2))
+    expect(a.next()).toEqual(none())
+    expect(a.next()).toEqual(none())
+})
+
+test("iterable", () => {
+    const a = Iter.from([1, 2, 3])
+    a.next()
+
+    expect([...a]).toEqual([2, 3])
+})
+
+test("lazy", () => {
+    const seen = new Array<number>()
+    const a = Iter.from([1, 2, 3, 4]).map((x) => {
+        seen.push(x)
+        return x * 10
+    })
+
+    expect(seen).toEqual([])
+    expect(a.take(2).collect()).toEqual([10, 20])
+    expect(seen).toEqual([1, 2])
+})
+
+test("map filter filterMap", () => {
+    expect(Iter.from([1, 2, 3]).map((x) => x * 2).collect()).toEqual([2, 4, 6])
+    expect(Iter.from([1, 2, 3, 4]).filter((x) => x % 2 === 0).collect()).toEqual([2, 4])
+
+    const strings: Array<string> = Iter.from([1, "a", 2, "b"])
+        .filter((x): x is string => typeof x === "string")
+        .collect()
+    expect(strings).toEqual(["a", "b"])
+
+    const parse = (s: string): Option<number> => Number.isNaN(Number(s)) ? none() : some(Number(s))
+    expect(Iter.from(["1", "x", "2"]).filterMap(parse).collect()).toEqual([1, 2])
+})
+
+test("take skip", () => {
+    expect(Iter.from([1, 2, 3]).take(2).collect()).toEqual([1, 2])
+    expect(Iter.from([1, 2, 3]).take(5).collect()).toEqual([1, 2, 3])
+    expect(Iter.from([1, 2, 3]).skip(2).collect()).toEqual([3])
+    expect(Iter.from([1, 2, 3]).skip(5).collect()).toEqual([])
+
+    const a = Iter.from([1, 2, 3])
+    expect(a.take(1).collect()).toEqual([1])
+    expect(a.next()).toEqual(some(2))
+})
+
+test("zip chain enumerate flatMap", () => {
+    const zipped: Array<[number, string]> = Iter.from([1, 2, 3]).zip(["a", "b"]).collect()
+    expect(zipped).toEqual([[1, "a"], [2, "b"]])
+
+    const chained: Array<number | string> = Iter.from([1, 2]).chain(["a"]).collect()
+    expect(chained).toEqual([1, 2, "a"])
+
+    expect(Iter.from(["a", "b"]).enumerate().collect()).toEqual([[0, "a"], [1, "b"]])
+    expect(Iter.from([1, 2]).flatMap((x) => [x, x * 10]).collect()).toEqual([1, 10, 2, 20])
+})
+
+test("peekable", () => {
+    const a = Iter.from([1, 2, 3]).peekable()
+
+    expect(a.peek()).toEqual(some(1))
+    expect(a.peek()).toEqual(some(1))
+    expect(a.next()).toEqual(some(1))
+    expect(a.nextIf((x) => x > 2)).toEqual(none())
+    expect(a.nextIf((x) => x === 2)).toEqual(some(2))
+    expect(a.peek()).toEqual(some(3))
+    expect(a.map((x) => x * 10).collect()).toEqual([30])
+    expect(a.peek()).toEqual(none())
+})
+
+test("stepBy windows chunks", () => {
+    expect(Iter.from([0, 1, 2, 3, 4, 5]).stepBy(2).collect()).toEqual([0, 2, 4])
+    expect(Iter.from([1, 2, 3, 4]).windows(2).collect()).toEqual([[1, 2], [2, 3], [3, 4]])
+    expect(Iter.from([1]).windows(2).collect()).toEqual([])
+    expect(Iter.from([1, 2, 3, 4, 5]).chunks(2).collect()).toEqual([[1, 2], [3, 4], [5]])
+
+    expect(() => Iter.from([1]).stepBy(0)).toThrow()
+    expect(() => Iter.from([1]).windows(0)).toThrow()
+    expect(() => Iter.from([1]).chunks(1.5)).toThrow()
+})
+
+test("find position", () => {
+    const a = Iter.from([1, 2, 3])
+
+    expect(a.find((x) => x > 1)).toEqual(some(2))
+    expect(a.next()).toEqual(some(3))
+    expect(Iter.from([1, 2, 3]).find((x) => x > 3)).toEqual(none())
+
+    expect(Iter.from(["a", "b"]).position((x) => x === "b")).toEqual(some(1))
+    expect(Iter.from(["a", "b"]).position((x) => x === "c")).toEqual(none())
+})
+
+test("max min", () => {
+    expect(Iter.from([1, 3, 2]).max()).toEqual(some(3))
+    expect(Iter.from(["b", "c", "a"]).min()).toEqual(some("a"))
+    expect(Iter.from(new Array<number>()).max()).toEqual(none())
+
+    const people = [{ name: "a", age: 30 }, { name: "b", age: 20 }, { name: "c", age: 30 }, { name: "d", age: 20 }]
+    expect(Iter.from(people).max((a, b) => a.age - b.age)).toEqual(some(people[2]))
+    expect(Iter.from(people).min((a, b) => a.age - b.age)).toEqual(some(people[1]))
+})
+
+test("last nth reduce fold", () => {
+    expect(Iter.from([1, 2, 3]).last()).toEqual(some(3))
+    expect(Iter.from(new Array<number>()).last()).toEqual(none())
+
+    const a = Iter.from([1, 2, 3])
+    expect(a.nth(1)).toEqual(some(2))
+    expect(a.nth(0)).toEqual(some(3))
+    expect(a.nth(0)).toEqual(none())
+
+    expect(Iter.from([1, 2, 3]).reduce((a, b) => a + b)).toEqual(some(6))
+    expect(Iter.from(new Array<number>()).reduce((a, b) => a + b)).toEqual(none())
+    expect(Iter.from([1, 2, 3]).fold("", (a, b) => a + b)).toBe("123")
+})
+
+test("tryFold", () => {
+    const add = (a: number, b: number): Result<number, string> => a + b > 100 ? err("overflow") : ok(a + b)
+
+    expect(Iter.from([1, 2, 3]).tryFold(0, add)).toEqual(ok(6))
+
+    const a = Iter.from([50, 60, 70])
+    expect(a.tryFold(0, add)).toEqual(err("overflow"))
+    expect(a.next()).toEqual(some(70))
+})
+
+test("tryCollect", () => {
+    const parse = (s: string): Result<number, string> =>
+        Number.isNaN(Number(s)) ? err(`${s} is not a number`) : ok(Number(s))
+
+    const a: Result<Array<number>, string> = Iter.from(["1", "2"]).map(parse).tryCollect()
+    expect(a).toEqual(ok([1, 2]))
+
+    const seen = new Array<string>()
+    const b = Iter.from(["1", "x", "2"])
+        .map((s) => {
+            seen.push(s)
+            return parse(s)
+        })
+        .tryCollect()
+    expect(b).toEqual(err("x is not a number"))
+    expect(seen).toEqual(["1", "x"])
+})
@@ -1,4 +1,5 @@
-import { some, none } from "../Option"
+import { None, Option, Some, some, none } from "../Option"
+import { err, ok, Result } from "../Result"
 
 test("isSome", () => {
     const someOption = some(1)
@@ -8,6 +9,28 @@ test("isSome", () => {
     expect(noneOption.isSome()).toBe(false)
 })
 
+test("narrowing", () => {
+    const options: Array<Option<number>> = [some(1), none()]
+    const [someOption, noneOption] = options as [Option<number>, Option<number>]
+
+    expect(someOption).toBeInstanceOf(Some)
+    expect(someOption).toBeInstanceOf(Option)
+    expect(noneOption).toBeInstanceOf(None)
+    expect(noneOption).toBeInstanceOf(Option)
+
+    if (someOption.isSome()) {
+        const value: number = someOption.value
+        expect(value).toBe(1)
+    }
+
+    if (noneOption.isNone()) {
+        expect("value" in noneOption).toBe(false)
+    }
+    else {
+        expect(noneOption.value).toBeUndefined()
+    }
+})
+
 test("isNone", () => {
     const someOption = some(1)
     const noneOption = none()
@@ -90,6 +113,109 @@ test("andThen", () => {
     }
 })
 
+test("expect", () => {
+    expect(some(1).expect("missing")).toBe(1)
+    expect(() => none().expect("missing")).toThrow("missing")
+})
+
+test("filter", () => {
+    const someOption = some<number | string>(1)
+
+    expect(someOption.filter((x) => x === 1)).toEqual(some(1))
+    expect(someOption.filter((x) => x === 2)).toEqual(none())
+    expect(none<number>().filter(() => true)).toEqual(none())
+
+    const narrowed: Option<number> = someOption.filter((x): x is number => typeof x === "number")
+    expect(narrowed).toEqual(some(1))
+})
+
+test("zip", () => {
+    expect(some(1).zip(some("a"))).toEqual(some([1, "a"]))
+    expect(some(1).zip(none())).toEqual(none())
+    expect(none().zip(some(1))).toEqual(none())
+    expect(some(1).zipWith(some(2), (a, b) => a + b)).toEqual(some(3))
+})
+
+test("unzip", () => {
+    expect(some<[number, string]>([1, "a"]).unzip()).toEqual([some(1), some("a")])
+    expect(none<[number, string]>().unzip()).toEqual([none(), none()])
+})
+
+test("xor", () => {
+    expect(some(1).xor(none())).toEqual(some(1))
+    expect(none<number>().xor(some(2))).toEqual(some(2))
+    expect(some(1).xor(some(2))).toEqual(none())
+    expect(none().xor(none())).toEqual(none())
+})
+
+test("flatten", () => {
+    expect(some(some(1)).flatten()).toEqual(some(1))
+    expect(some(none()).flatten()).toEqual(none())
+    expect(none<Option<number>>().flatten()).toEqual(none())
+})
+
+test("mapOr", () => {
+    expect(some("abc").mapOr(0, (x) => x.length)).toBe(3)
+    expect(none<string>().mapOr(0, (x) => x.length)).toBe(0)
+    expect(some("abc").mapOrElse(() => 0, (x) => x.length)).toBe(3)
+    expect(none<string>().mapOrElse(() => 0, (x) => x.length)).toBe(0)
+})
+
+test("inspect", () => {
+    const seen = new Array<number>()
+    const someOption = some(1)
+
+    expect(someOption.inspect((x) => seen.push(x))).toBe(someOption)
+    none<number>().inspect((x) => seen.push(x))
+    expect(seen).toEqual([1])
+})
+
+test("isSomeAnd isNoneOr", () => {
+    expect(some(1).isSomeAnd((x) => x > 0)).toBe(true)
+    expect(some(1).isSomeAnd((x) => x > 1)).toBe(false)
+    expect(none<number>().isSomeAnd(() => true)).toBe(false)
+    expect(some(1).isNoneOr((x) => x > 0)).toBe(true)
+    expect(some(1).isNoneOr((x) => x > 1)).toBe(false)
+    expect(none<number>().isNoneOr(() => false)).toBe(true)
+})
+
+test("okOr", () => {
+    expect(some(1).okOr("missing")).toEqual(ok(1))
+    expect(none().okOr("missing")).toEqual(err("missing"))
+    expect(some(1).okOrElse(() => "missing")).toEqual(ok(1))
+    expect(none().okOrElse(() => "missing")).toEqual(err("missing"))
+})
+
+test("transpose", () => {
+    expect(some(ok<number, string>(1)).transpose()).toEqual(ok(some(1)))
+    expect(some(err<number, string>("error")).transpose()).toEqual(err("error"))
+    expect(none<Result<number, string>>().transpose()).toEqual(ok(none()))
+})
+
+test("iter", () => {
+    const values = new Array<number>()
+    for (const x of some(1).iter()) {
+        values.push(x)
+    }
+
+    expect(values).toEqual([1])
+    expect([...some(2).iter(), ...none<number>().iter()]).toEqual([2])
+})
+
+test("iterator", () => {
+    const values = new Array<number>()
+    for (const x of some(1)) {
+        values.push(x)
+    }
+    for (const x of none<number>()) {
+        values.push(x)
+    }
+
+    expect(values).toEqual([1])
+    expect([...some(42)]).toEqual([42])
+    expect([...none<number>()]).toEqual([])
+})
+
 test("match", () => {
     const someOption = some(1)
     const noneOption = none()
@@ -97,3 +223,66 @@ test("match", () => {
     expect(someOption.match(() => 2, () => 3)).toBe(2)
     expect(noneOption.match(() => 2, () => 3)).toBe(3)
 })
+
+test("match object", () => {
+    expect(some(1).match({ some: (x) => x + 1, none: () => 0 })).toBe(2)
+    expect(none<number>().match({ some: (x) => x + 1, none: () => 0 })).toBe(0)
+})
+
+test("gen", () => {
+    const a = Option.gen(function* () {
+        const x = yield* some(40).try()
+        const y = yield* some(2).try()
+        return x + y
+    })
+    const b = Option.gen(function* () {
+        const x = yield* some(40).try()
+        const y = yield* none<number>().try()
+        return x + y
+    })
+
+    expect(a.unwrap()).toBe(42)
+    expect(b.isNone()).toBe(true)
+})
+
+test("all", () => {
+    const tuple: Option<readonly [number, string]> = Option.all([some(1), some("two")])
+    expect(tuple).toEqual(some([1, "two"]))
+    expect(Option.all([some(1), none<number>()])).toEqual(none())
+    expect(Option.all(new Array<Option<number>>())).toEqual(some([]))
+
+    const record: Option<{ name: string, age: number }> = Option.all({ name: some("Alice"), age: some(42) })
+    expect(record).toEqual(some({ name: "Alice", age: 42 }))
+    expect(Option.all({ name: some("Alice"), age: none<number>() })).toEqual(none())
+})
+
+test("firstSome", () => {
+    const a: Option<number | string> = Option.firstSome([none<number>(), some("one"), some(2)])
+    expect(a).toEqual(some("one"))
+    expect(Option.firstSome([none<number>(), none<number>()])).toEqual(none())
+
+    const b: Option<number> = Option.firstSome({ env: none<number>(), config: some(8080) })
+    expect(b).toEqual(some(8080))
+})
+
+test("collect", () => {
+    const a: Array<number> = Option.collect([some(1), none<number>(), some(2)])
+    expect(a).toEqual([1, 2])
+
+    const b: { a?: number, b?: string } = Option.collect({ a: some(1), b: none<string>() })
+    expect(b).toEqual({ a: 1 })
+})
+
+test("filterMap", () => {
+    const parse = (s: string): Option<number> => {
+        const n = Number(s)
+        return Number.isNaN(n) ? none() : some(n)
+    }
+
+    const a: Array<number> = Option.filterMap(["1", "x", "2"], parse)
+    expect(a).toEqual([1, 2])
+    expect(Option.filterMap(["a", "b"], (s, index) => index === 0 ? some(s) : none<string>())).toEqual(["a"])
+
+    const b: { width?: number, height?: number } = Option.filterMap({ width: "1", height: "x" }, parse)
+    expect(b).toEqual({ width: 1 })
+})
@@ -0,0 +1,65 @@
+import { match, Pattern } from "../Pattern"
+import { none, Option, some } from "../Option"
+import { err, ok, Result } from "../Result"
+
+const { ok: isOk, err: isErr, some: isSome, none: isNone, _ } = Pattern
+
+const describe = (value: Result<Option<number>, "not found" | "forbidden">) => match(value)
+    .with(isOk(isSome((x) => x > 0)), (x) => `positive ${x}`)
+    .with(isOk(isSome(_)), (x) => `not positive ${x}`)
+    .with(isOk(isNone), () => "empty")
+    .with(isErr("not found"), () => "missing")
+    .with(isErr(_), (e) => `failed with ${e}`)
+    .exhaustive()
+
+test("match nested", () => {
+    expect(describe(ok(some(1)))).toBe("positive 1")
+    expect(describe(ok(some(-1)))).toBe("not positive -1")
+    expect(describe(ok(none()))).toBe("empty")
+    expect(describe(err("not found"))).toBe("missing")
+    expect(describe(err("forbidden"))).toBe("failed with forbidden")
+})
+
+test("match literals", () => {
+    const status = (value: Result<number, "not found" | "forbidden">) => match(value)
+        .with(isOk(0), () => "zero")
+        .with(isOk(_), (x) => x.toFixed(1))
+        .with(isErr("not found"), (e) => e.length)
+        .with(isErr("forbidden"), () => -1)
+        .exhaustive()
+
+    expect(status(ok(0))).toBe("zero")
+    expect(status(ok(2))).toBe("2.0")
+    expect(status(err("not found"))).toBe(9)
+    expect(status(err("forbidden"))).toBe(-1)
+})
+
+test("match type guards", () => {
+    const value: Option<number | string> = some("text")
+    const text = match(value)
+        .with(isSome((x): x is string => typeof x === "string"), (x) => x.toUpperCase())
+        .otherwise(() => "no text")
+
+    expect(text).toBe("TEXT")
+    expect(match(none<string>()).with(isSome(_), (x) => x).otherwise(() => "fallback")).toBe("fallback")
+})
+
+test("match exhaustiveness", () => {
+    const value: Result<Option<number>, string> = ok(some(1))
+
+    const guarded = match(value)
+        .with(isOk(isSome((x) => x > 0)), (x) => x)
+        .with(isOk(isNone), () => 0)
+        .with(isErr(_), () => -1)
+    // @ts-expect-error ok(some(x)) with x <= 0 is not covered
+    expect(() => guarded.exhaustive()).not.toThrow()
+
+    const literal = match(value)
+        .with(isOk(_), () => 0)
+        .with(isErr("error"), () => -1)
+    // @ts-expect-error err(string) is not only "error"
+    expect(literal.exhaustive()).toBe(0)
+
+    // @ts-expect-error err(string) is not covered
+    expect(() => match(err<number, string>("other")).with(isOk(_), () => 0).exhaustive()).toThrow()
+})
@@ -1,5 +1,6 @@
 import { ok, err } from "../Result"
-import type { Result } from "../Result"
+import { Err, Ok, Result } from "../Result"
+import { none, Option, some } from "../Option"
 
 test("isOk", () => {
     const okRes = ok(1)
@@ -9,6 +10,33 @@ test("isOk", () => {
     expect(errRes.isOk()).toBe(false)
 })
 
+test("narrowing", () => {
+    const results: Array<Result<number, string>> = [ok(1), err("error")]
+    const [okRes, errRes] = results as [Result<number, string>, Result<number, string>]
+
+    expect(okRes).toBeInstanceOf(Ok)
+    expect(okRes).toBeInstanceOf(Result)
+    expect(errRes).toBeInstanceOf(Err)
+    expect(errRes).toBeInstanceOf(Result)
+
+    if (okRes.isOk()) {
+        const value: number = okRes.value
+        expect(value).toBe(1)
+    }
+    else {
+        const error: string = okRes.error
+        expect(error).toBeUndefined()
+    }
+
+    if (errRes.isErr()) {
+        expect(errRes.error).toBe("error")
+        expect("value" in errRes).toBe(false)
+    }
+    else {
+        expect(errRes.value).toBeUndefined()
+    }
+})
+
 test("isErr", () => {
     const okRes = ok(1)
     const errRes = err(2)
@@ -107,6 +135,101 @@ test("mapErr", () => {
     expect(errRes.mapErr(fn).unwrapErr()).toBe(3)
 })
 
+test("andThen widens the error", () => {
+    const a: Result<number, string> = ok(42)
+    const b: Result<number, string | RangeError> = a.andThen((x) => x > 40 ? err<number, RangeError>(new RangeError("too big")) : ok(x))
+
+    expect(b.unwrapErr()).toBeInstanceOf(RangeError)
+})
+
+test("expect", () => {
+    expect(ok(1).expect("should be ok")).toBe(1)
+    expect(() => err("boom").expect("should be ok")).toThrow("should be ok: boom")
+    expect(() => err(new Error("boom")).expect("should be ok")).toThrow("should be ok: boom")
+    expect(err(2).expectErr("should be err")).toBe(2)
+    expect(() => ok({ answer: 42 }).expectErr("should be err")).toThrow("should be err: {\"answer\":42}")
+})
+
+test("ok err", () => {
+    expect(ok(1).ok()).toEqual(some(1))
+    expect(err(2).ok()).toEqual(none())
+    expect(ok(1).err()).toEqual(none())
+    expect(err(2).err()).toEqual(some(2))
+})
+
+test("unwrapOrUndefined unwrapOrNull", () => {
+    expect(ok(1).unwrapOrUndefined()).toBe(1)
+    expect(err(2).unwrapOrUndefined()).toBeUndefined()
+    expect(ok(1).unwrapOrNull()).toBe(1)
+    expect(err(2).unwrapOrNull()).toBeNull()
+})
+
+test("mapOr", () => {
+    expect(ok<string, string>("abc").mapOr(0, (x) => x.length)).toBe(3)
+    expect(err<string, string>("ab").mapOr(0, (x) => x.length)).toBe(0)
+    expect(ok<string, string>("abc").mapOrElse((e) => e.length * 2, (x) => x.length)).toBe(3)
+    expect(err<string, string>("ab").mapOrElse((e) => e.length * 2, (x) => x.length)).toBe(4)
+})
+
+test("inspect", () => {
+    const seen = new Array<unknown>()
+    const okRes = ok<number, string>(1)
+    const errRes = err<number, string>("error")
+
+    expect(okRes.inspect((x) => seen.push(x))).toBe(okRes)
+    expect(okRes.inspectErr((e) => seen.push(e))).toBe(okRes)
+    expect(errRes.inspect((x) => seen.push(x))).toBe(errRes)
+    expect(errRes.inspectErr((e) => seen.push(e))).toBe(errRes)
+    expect(seen).toEqual([1, "error"])
+})
+
+test("isOkAnd isErrAnd", () => {
+    expect(ok<number, string>(1).isOkAnd((x) => x > 0)).toBe(true)
+    expect(ok<number, string>(1).isOkAnd((x) => x > 1)).toBe(false)
+    expect(err<number, string>("a").isOkAnd(() => true)).toBe(false)
+    expect(err<number, string>("a").isErrAnd((e) => e === "a")).toBe(true)
+    expect(err<number, string>("a").isErrAnd((e) => e === "b")).toBe(false)
+    expect(ok<number, string>(1).isErrAnd(() => true)).toBe(false)
+})
+
+test("flatten", () => {
+    expect(ok(ok(1)).flatten()).toEqual(ok(1))
+    expect(ok<Result<number, string>, string>(err("inner")).flatten()).toEqual(err("inner"))
+    expect(err<Result<number, string>, string>("outer").flatten()).toEqual(err("outer"))
+})
+
+test("transpose", () => {
+    expect(ok<Option<number>, string>(some(1)).transpose()).toEqual(some(ok(1)))
+    expect(ok<Option<number>, string>(none()).transpose()).toEqual(none())
+    expect(err<Option<number>, string>("error").transpose()).toEqual(some(err("error")))
+})
+
+test("iter", () => {
+    expect([...ok(1).iter(), ...err(2).iter()]).toEqual([1])
+})
+
+test("iterator", () => {
+    const values = new Array<number>()
+    for (const x of ok<number, string>(1)) {
+        values.push(x)
+    }
+    for (const x of err<number, string>("error")) {
+        values.push(x)
+    }
+
+    expect(values).toEqual([1])
+    expect([...ok(42)]).toEqual([42])
+    expect([...err("error")]).toEqual([])
+})
+
+test("intoOk intoErr", () => {
+    const okRes: Result<number, never> = ok(1)
+    const errRes: Result<never, string> = err("error")
+
+    expect(okRes.intoOk()).toBe(1)
+    expect(errRes.intoErr()).toBe("error")
+})
+
 test("match", () => {
     const okRes = ok(1)
     const errRes = err(2)
@@ -114,3 +237,133 @@ test("match", () => {
     expect(okRes.match(() => 3, () => 4)).toBe(3)
     expect(errRes.match(() => 3, () => 4)).toBe(4)
 })
+
+test("match object", () => {
+    const okRes = ok<number, string>(1)
+    const errRes = err<number, string>("error")
+
+    expect(okRes.match({ ok: (x) => x + 1, err: (e) => e.length })).toBe(2)
+    expect(errRes.match({ ok: (x) => x + 1, err: (e) => e.length })).toBe(5)
+})
+
+test("gen", () => {
+    const parse = (x: string): Result<number, string> => {
+        const n = Number(x)
+        return isNaN(n) ? err("not a number") : ok(n)
+    }
+    const positive = (x: number): Result<number, RangeError> =>
+        x > 0 ? ok(x) : err(new RangeError("not positive"))
+
+    const a = Result.gen(function* () {
+        const x = yield* parse("40").try()
+        const y = yield* positive(2).try()
+        return x + y
+    })
+    const b = Result.gen(function* () {
+        const x = yield* parse("forty").try()
+        const y = yield* positive(2).try()
+        return x + y
+    })
+    const c = Result.gen(function* () {
+        const x = yield* parse("40").try()
+        const y = yield* positive(-2).try()
+        return x + y
+    })
+
+    const e: Result<number, string | RangeError> = c
+    expect(a.unwrap()).toBe(42)
+    expect(b.unwrapErr()).toBe("not a number")
+    expect(e.unwrapErr()).toBeInstanceOf(RangeError)
+})
+
+test("gen finally", () => {
+    let cleanedUp = false
+    const a = Result.gen(function* () {
+        try {
+            return yield* err<number, string>("error").try()
+        }
+        finally {
+            cleanedUp = true
+        }
+    })
+
+    expect(a.unwrapErr()).toBe("error")
+    expect(cleanedUp).toBe(true)
+})
+
+test("all", () => {
+    const a = ok<number, string>(1)
+    const b = ok<string, RangeError>("two")
+    const c = err<number, string>("error")
+
+    const tuple: Result<readonly [number, string], string | RangeError> = Result.all([a, b])
+    expect(tuple).toEqual(ok([1, "two"]))
+    expect(Result.all([a, c, a])).toEqual(err("error"))
+    expect(Result.all(new Array<Result<number, string>>())).toEqual(ok([]))
+
+    const record: Result<{ a: number, b: string }, string | RangeError> = Result.all({ a, b })
+    expect(record).toEqual(ok({ a: 1, b: "two" }))
+    expect(Result.all({ a, c })).toEqual(err("error"))
+})
+
+test("allErrors", () => {
+    const a = ok<number, string>(1)
+    const b = err<number, string>("first")
+    const c = err<string, RangeError>(new RangeError("second"))
+
+    const tuple: Result<readonly [number, number, string], readonly [string?, string?, RangeError?]> = Result.allErrors([a, b, c])
+    const errors = tuple.unwrapErr()
+    expect(errors).toHaveLength(3)
+    expect(0 in errors).toBe(false)
+    expect(errors[1]).toBe("first")
+    expect(errors[2]).toEqual(new RangeError("second"))
+    expect(Result.allErrors([a, a])).toEqual(ok([1, 1]))
+
+    const results: Array<Result<number, string>> = [a, b, a, b]
+    const array: ReadonlyArray<string> = Result.allErrors(results).unwrapErr()
+    expect(Object.keys(array)).toEqual(["1", "3"])
+
+    const record: Result<{ a: number, b: number }, { a?: string, b?: string }> = Result.allErrors({ a, b })
+    expect(record).toEqual(err({ b: "first" }))
+    expect(Result.allErrors({ a })).toEqual(ok({ a: 1 }))
+})
+
+test("partition", () => {
+    const results = [ok<number, string>(1), err<number, string>("error"), ok<number, string>(2)]
+
+    const [values, errors]: [Array<number>, Array<string>] = Result.partition(results)
+    expect(values).toEqual([1, 2])
+    expect(errors).toEqual(["error"])
+
+    const record: [{ a?: number, b?: boolean }, { a?: string, b?: RangeError }] = Result.partition({
+        a: err<number, string>("error"),
+        b: ok<boolean, RangeError>(true),
+    })
+    expect(record).toEqual([{ b: true }, { a: "error" }])
+})
+
+test("traverse", () => {
+    const parse = (s: string): Result<number, string> => {
+        const n = Number(s)
+        return Number.isNaN(n) ? err(`${s} is not a number`) : ok(n)
+    }
+
+    const tuple: Result<readonly [number, number], string> = Result.traverse(["1", "2"], parse)
+    expect(tuple).toEqual(ok([1, 2]))
+
+    const seen = new Array<string>()
+    const failed = Result.traverse(["1", "x", "2"], (s) => {
+        seen.push(s)
+        return parse(s)
+    })
+    expect(failed).toEqual(err("x is not a number"))
+    expect(seen).toEqual(["1", "x"])
+
+    const record: Result<{ width: number, height: number }, string> = Result.traverse(
+        { width: "1", height: "2" },
+        parse
+    )
+    expect(record).toEqual(ok({ width: 1, height: 2 }))
+    expect(Result.traverse({ width: "1", height: "x" }, parse)).toEqual(err("x is not a number"))
+    expect(Result.traverse(["a", "b"], (s, index) => ok<string, never>(s + index))).toEqual(ok(["a0", "b1"]))
+})
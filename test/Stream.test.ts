@@ -0,0 +1,280 @@
+import { EventEmitter } from "events"
+import { Panic } from "@frank-mayer/panic"
+import { Future } from "../Future"
+import { none, some } from "../Option"
+import { err, ok, Result } from "../Result"
+import { Stream } from "../Stream"
+
+const results = <T, E>(...items: Array<Result<T, E>>) => new Stream<T, E>({
+    [Symbol.asyncIterator]: async function* () {
+        yield* items
+    },
+})
+
+const items = async <T, E>(stream: Stream<T, E>) => {
+    const collected = new Array<Result<T, E>>()
+    for await (const result of stream) {
+        collected.push(result)
+    }
+    return collected
+}
+
+test("from", async () => {
+    expect(await Stream.from([1, 2, 3]).collect()).toEqual(ok([1, 2, 3]))
+
+    const generator = async function* () {
+        yield 1
+        throw new Error("broken")
+    }
+    expect(await items(Stream.from(generator()))).toEqual([ok(1), err(new Error("broken"))])
+    expect(await items(Stream.from(generator(), (reason) => String(reason)))).toEqual([ok(1), err("Error: broken")])
+})
+
+test("map filter", async () => {
+    const a = results<number, string>(ok(1), err("error"), ok(2), ok(3))
+
+    expect(await items(a.map((x) => x * 2))).toEqual([ok(2), err("error"), ok(4), ok(6)])
+    expect(await items(a.filter((x) => x % 2 === 1))).toEqual([ok(1), err("error"), ok(3)])
+})
+
+test("andThen", async () => {
+    const a = Stream.from([1, 2, 3]).andThen((x) => x === 2 ? Future.err<number, Error>(new Error("two")) : Future.delay(x * 10, 5))
+
+    expect(await items(a)).toEqual([ok(10), err(new Error("two")), ok(30)])
+})
+
+test("take", async () => {
+    let pulled = 0
+    let closed = false
+    const a = Stream.from((async function* () {
+        try {
+            for (;;) {
+                pulled++
+                yield pulled
+            }
+        }
+        finally {
+            closed = true
+        }
+    })())
+
+    expect(await a.map((x) => x * 10).take(3).collect()).toEqual(ok([10, 20, 30]))
+    expect(pulled).toBe(3)
+    expect(closed).toBe(true)
+    expect(await Stream.from([1]).take(0).collect()).toEqual(ok([]))
+})
+
+test("buffer", async () => {
+    let pulled = 0
+    const a = Stream.from((async function* () {
+        for (let i = 1; i <= 5; i++) {
+            pulled = i
+            yield i
+        }
+    })()).buffer(2)
+
+    const iterator = a[Symbol.asyncIterator]()
+    expect(await iterator.next()).toEqual({ done: false, value: ok(1) })
+    await Future.sleep(5)
+    expect(pulled).toBe(3)
+    await iterator.return?.()
+
+    expect(await Stream.from([1, 2, 3]).buffer(5).collect()).toEqual(ok([1, 2, 3]))
+    expect(() => Stream.from([1]).buffer(0)).toThrow()
+})
+
+test("mapConcurrent", async () => {
+    let running = 0
+    let maxRunning = 0
+    const a = Stream.from([30, 10, 20, 5]).mapConcurrent(2, (ms) => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        return Future.delay(ms, ms).inspect(() => running--)
+    })
+
+    expect(await a.collect()).toEqual(ok([30, 10, 20, 5]))
+    expect(maxRunning).toBe(2)
+    expect(() => Stream.from([1]).mapConcurrent(0, ok)).toThrow()
+})
+
+test("merge", async () => {
+    const slow = Stream.from([1, 2]).andThen((x) => Future.delay(x, 20))
+    const fast = results<string, string>(ok("a"), err("error"))
+
+    const merged = await items(slow.merge(fast))
+    expect(merged).toEqual([ok("a"), err("error"), ok(1), ok(2)])
+})
+
+test("zip", async () => {
+    const a = results<number, string>(ok(1), err("left"), ok(3), ok(4))
+    const b = results<string, RangeError>(ok("a"), ok("b"), ok("c"))
+
+    expect(await items(a.zip(b))).toEqual([ok([1, "a"]), err("left"), ok([3, "c"])])
+})
+
+test("throttle", async () => {
+    const start = Date.now()
+    const times = new Array<number>()
+
+    await Stream.from([1, 2, 3]).throttle(20).forEach(() => {
+        times.push(Date.now() - start)
+    })
+
+    expect(times[0]).toBeLessThan(20)
+    expect(times[2]).toBeGreaterThanOrEqual(38)
+})
+
+test("chunksTimeout", async () => {
+    const a = Stream.from([1, 2, 3, 4, 5]).chunksTimeout(2, 1000)
+    expect(await a.collect()).toEqual(ok([[1, 2], [3, 4], [5]]))
+
+    const b = Stream.from([1, 2, 3]).andThen((x) => Future.delay(x, x === 3 ? 50 : 0)).chunksTimeout(10, 20)
+    expect(await b.collect()).toEqual(ok([[1, 2], [3]]))
+
+    const c = results<number, string>(ok(1), err("error"), ok(2)).chunksTimeout(5, 1000)
+    expect(await items(c)).toEqual([ok([1]), err("error"), ok([2])])
+})
+
+test("collect fold forEach first", async () => {
+    const a = results<number, string>(ok(1), ok(2), err("error"), ok(3))
+
+    expect(await Stream.from([1, 2, 3]).fold(0, async (sum, x) => sum + x)).toEqual(ok(6))
+    expect(await a.collect()).toEqual(err("error"))
+
+    const seen = new Array<number>()
+    expect(await a.forEach((x) => {
+        seen.push(x)
+    })).toEqual(err("error"))
+    expect(seen).toEqual([1, 2])
+
+    expect(await a.first()).toEqual(ok(some(1)))
+    expect(await Stream.from(new Array<number>()).first()).toEqual(ok(none()))
+})
+
+test("cancel", async () => {
+    let closed = false
+    const a = Stream.from((async function* () {
+        try {
+            for (let i = 0; ; i++) {
+                await Future.sleep(5)
+                yield i
+            }
+        }
+        finally {
+            closed = true
+        }
+    })())
+
+    const future = a.forEach(() => undefined)
+    await Future.sleep(12)
+    future.cancel()
+
+    expect((await future).isErr()).toBe(true)
+    await Future.sleep(10)
+    expect(closed).toBe(true)
+})
+
+test("toAsyncGenerator", async () => {
+    const values = new Array<number>()
+    await expect((async () => {
+        for await (const value of results<number, string>(ok(1), err("error"), ok(2)).toAsyncGenerator()) {
+            values.push(value)
+        }
+    })()).rejects.toBe("error")
+    expect(values).toEqual([1])
+})
+
+test("emitter", async () => {
+    const emitter = new EventEmitter()
+    const a = Stream.fromEmitter<number, Error>(emitter).collect()
+
+    emitter.emit("data", 1)
+    emitter.emit("data", 2)
+    emitter.emit("end")
+    expect(await a).toEqual(ok([1, 2]))
+    expect(emitter.listenerCount("data")).toBe(0)
+
+    const first = Stream.fromEmitter<number, Error>(emitter).filter((x) => x > 1).first()
+    emitter.emit("data", 1)
+    emitter.emit("data", 2)
+    expect(await first).toEqual(ok(some(2)))
+    expect(emitter.listenerCount("data")).toBe(0)
+
+    const b = Stream.fromEmitter<string, string>(emitter, { data: "message", error: "failure" }).collect()
+    emitter.emit("message", "a")
+    emitter.emit("failure", "broken")
+    expect(await b).toEqual(err("broken"))
+
+    const target = new EventEmitter()
+    const emitted = new Array<unknown>()
+    target.on("data", (value) => emitted.push(value))
+    target.on("error", (error) => emitted.push(`error ${error}`))
+    target.on("end", () => emitted.push("end"))
+    expect(await results<number, string>(ok(1), err("e"), ok(2)).emitTo(target)).toEqual(ok(undefined))
+    expect(emitted).toEqual([1, "error e", 2, "end"])
+})
+
+test("cancel quiet emitter", async () => {
+    const emitter = new EventEmitter()
+    const a = Stream.fromEmitter<number, Error>(emitter).forEach(() => undefined)
+    const b = Stream.fromEmitter<number, Error>(emitter).filter((x) => x > 1).map((x) => x * 2).forEach(() => undefined)
+    await Future.sleep(0)
+    expect(emitter.listenerCount("data")).toBe(2)
+
+    a.cancel()
+    b.cancel()
+    expect((await a).isErr()).toBe(true)
+    expect((await b).isErr()).toBe(true)
+    await Future.sleep(0)
+    expect(emitter.listenerCount("data")).toBe(0)
+
+    const target = new EventEmitter()
+    const ended = new Array<unknown>()
+    target.on("end", () => ended.push("end"))
+    const c = Stream.fromEmitter<number, Error>(emitter).emitTo(target)
+    await Future.sleep(0)
+    c.cancel()
+    await Future.sleep(0)
+    expect(emitter.listenerCount("data")).toBe(0)
+    expect(ended).toEqual([])
+})
+
+test("emitTo cancel", async () => {
+    let closed = false
+    const a = Stream.from((async function* () {
+        try {
+            for (let i = 0; ; i++) {
+                await Future.sleep(5)
+                yield i
+            }
+        }
+        finally {
+            closed = true
+        }
+    })())
+
+    const target = new EventEmitter()
+    const emitted = new Array<unknown>()
+    target.on("data", (value) => emitted.push(value))
+    target.on("end", () => emitted.push("end"))
+    const future = a.emitTo(target)
+    await Future.sleep(12)
+    future.cancel()
+
+    expect((await future).isErr()).toBe(true)
+    await Future.sleep(10)
+    expect(closed).toBe(true)
+    expect(emitted).not.toContain("end")
+
+    const unhandled = await results<number, string>(err("e")).emitTo(new EventEmitter())
+    expect(unhandled.unwrapErr()).toBeInstanceOf(Panic)
+})
+
+test("readable", async () => {
+    const readable = Stream.from([1, 2, 3]).toReadable()
+    const a = Stream.fromReadable(readable)
+    expect(await a.collect()).toEqual(ok([1, 2, 3]))
+
+    const failing = results<number, string>(ok(1), err("error")).toReadable()
+    expect(await items(Stream.fromReadable(failing, (reason) => `mapped ${reason}`))).toEqual([ok(1), err("mapped error")])
+})
@@ -0,0 +1,115 @@
+import { Cancelled } from "../Cancelled"
+import { Future } from "../Future"
+import { err, ok } from "../Result"
+import { Task } from "../Task"
+
+test("lazy", async () => {
+    let runs = 0
+    const t = new Task<number, string>((ok) => {
+        runs++
+        ok(runs)
+    })
+    expect(runs).toBe(0)
+
+    expect(await t).toEqual(ok(1))
+    expect(await t.run()).toEqual(ok(2))
+    expect(runs).toBe(2)
+})
+
+test("from", async () => {
+    let runs = 0
+    const t = Task.from(() => {
+        runs++
+        return Future.ok<number, string>(42)
+    })
+    expect(runs).toBe(0)
+    expect(await t).toEqual(ok(42))
+    expect(runs).toBe(1)
+
+    expect(await Task.from(Future.err<number, string>("error"))).toEqual(err("error"))
+    expect(await Task.from(ok(1))).toEqual(ok(1))
+})
+
+test("map andThen orElse", async () => {
+    let runs = 0
+    const t = Task.from(() => {
+        runs++
+        return Future.ok<number, string>(1)
+    })
+        .map((value) => value + 1)
+        .andThen((value) => Task.ok<number, string>(value * 10))
+        .andThen((value) => value > 10 ? Task.err<number, string>("too big") : Task.ok<number, string>(value))
+        .orElse((error) => Future.ok<number, string>(error.length))
+    expect(runs).toBe(0)
+
+    expect(await t).toEqual(ok(7))
+    expect(await t).toEqual(ok(7))
+    expect(runs).toBe(2)
+})
+
+test("andThen orElse widen the error", async () => {
+    const a: Task<number, string | RangeError> = Task.ok<number, string>(42)
+        .andThen(() => Task.err<number, RangeError>(new RangeError("too big")))
+    expect((await a).unwrapErr()).toBeInstanceOf(RangeError)
+
+    const b: Task<number, RangeError> = Task.err<number, string>("error")
+        .orElse((e) => Future.err<number, RangeError>(new RangeError(e)))
+    expect((await b).unwrapErr()).toBeInstanceOf(RangeError)
+})
+
+test("IntoFuture", async () => {
+    const f = Future.ok<number, string>(1).andThen((value) => Task.ok<number, string>(value + 1))
+    expect(await f).toEqual(ok(2))
+})
+
+test("cancel run", async () => {
+    let cleared = false
+    const t = new Task<number, Cancelled>((ok, _, onCancel) => {
+        const id = setTimeout(() => ok(42), 1000)
+        onCancel(() => {
+            clearTimeout(id)
+            cleared = true
+        })
+    }).map((value) => value + 1)
+
+    const f = t.run()
+    f.cancel()
+
+    expect((await f).unwrapErr()).toBeInstanceOf(Cancelled)
+    expect(cleared).toBe(true)
+})
+
+test("cancel through andThen and flatten", async () => {
+    let cancelled = 0
+    const t = new Task<number, string>((_, __, onCancel) => {
+        onCancel(() => cancelled++)
+    })
+
+    const a = Future.ok<number, string>(1).andThen(() => t)
+    const b = Future.ok<Task<number, string>, string>(t).flatten()
+    const c = Future.err<number, string>("error").orElse(() => t)
+    await Future.sleep(0)
+    a.cancel()
+    b.cancel()
+    c.cancel()
+
+    expect((await a).unwrapErr()).toBeInstanceOf(Cancelled)
+    expect((await b).unwrapErr()).toBeInstanceOf(Cancelled)
+    expect((await c).unwrapErr()).toBeInstanceOf(Cancelled)
+    expect(cancelled).toBe(3)
+})
+
+test("retry", async () => {
+    let attempts = 0
+    const t = new Task<number, string>((ok, err) => {
+        attempts++
+        if (attempts < 3) {
+            err("error")
+        }
+        else {
+            ok(attempts)
+        }
+    })
+
+    expect(await Future.retry(t, { backoff: () => 1 })).toEqual(ok(3))
+})